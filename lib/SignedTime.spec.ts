@@ -1,4 +1,13 @@
 import { describe, it, expect } from 'vitest';
+import {
+  DivisionByZeroError,
+  EmptyCollectionError,
+  InvalidDateError,
+  InvalidDurationError,
+  InvalidFormatError,
+  ParseError,
+  TimeDeltaError,
+} from './errors';
 import { SignedTime } from './SignedTime';
 
 describe('SignedTime', () => {
@@ -50,6 +59,11 @@ describe('SignedTime', () => {
       expect(SignedTime.fromSeconds(45).toString()).toBe('00:00:45.000');
       expect(SignedTime.fromMilliseconds(500).toString()).toBe('00:00:00.500');
     });
+
+    it('should create time from days', () => {
+      expect(SignedTime.fromDays(2).toString()).toBe('48:00:00.000');
+      expect(SignedTime.fromDays(-1.5).toString()).toBe('-36:00:00.000');
+    });
   });
 
   // Arithmetic Operations
@@ -92,6 +106,95 @@ describe('SignedTime', () => {
     });
   });
 
+  describe('ranges and partitioning', () => {
+    const hours = SignedTime.fromHours;
+    const minutes = SignedTime.fromMinutes;
+    const toClock = (times: Iterable<SignedTime>): string[] =>
+      Array.from(times, (time) => time.toString('hh:mm'));
+
+    it('should iterate a range excluding the end', () => {
+      const slots = toClock(SignedTime.range(hours(9), hours(18), minutes(15)));
+      expect(slots).toHaveLength(36);
+      expect(slots.slice(0, 2)).toEqual(['09:00', '09:15']);
+      expect(slots[35]).toBe('17:45');
+    });
+
+    it('should include the end when inclusive', () => {
+      expect(
+        toClock(SignedTime.range(hours(9), hours(10), minutes(30), { inclusive: true })),
+      ).toEqual(['09:00', '09:30', '10:00']);
+      expect(
+        toClock(SignedTime.range(hours(9), hours(10), minutes(25), { inclusive: true })),
+      ).toEqual(['09:00', '09:25', '09:50']);
+    });
+
+    it('should count down with a negative step', () => {
+      expect(toClock(SignedTime.range(hours(2), hours(0), hours(-1)))).toEqual(['02:00', '01:00']);
+    });
+
+    it('should be empty when the step points away from the end', () => {
+      expect(toClock(SignedTime.range(hours(2), hours(0), hours(1)))).toEqual([]);
+      expect(toClock(SignedTime.range(hours(2), hours(2), hours(1)))).toEqual([]);
+    });
+
+    it('should be lazy and reusable', () => {
+      const range = SignedTime.range(new SignedTime(), SignedTime.fromDays(1e6), minutes(1));
+      const iterator = range[Symbol.iterator]();
+      expect(iterator.next().value?.toString('hh:mm')).toBe('00:00');
+
+      const small = SignedTime.range(hours(0), hours(2), hours(1));
+      expect(toClock(small)).toEqual(toClock(small));
+    });
+
+    it('should reject a zero step', () => {
+      expect(() => SignedTime.range(hours(0), hours(1), new SignedTime())).toThrow(RangeError);
+    });
+
+    it('should split into parts that add up exactly', () => {
+      const parts = SignedTime.fromSeconds(10).split(3);
+      expect(parts.map((part) => part.totalNanoseconds)).toEqual([
+        3333333334n,
+        3333333333n,
+        3333333333n,
+      ]);
+      expect(parts.reduce((a, b) => a.add(b)).totalNanoseconds).toBe(10000000000n);
+      expect(toClock(hours(1).split(4))).toEqual(['00:15', '00:15', '00:15', '00:15']);
+    });
+
+    it('should split negative times', () => {
+      expect(
+        SignedTime.fromNanoseconds(-5n)
+          .split(2)
+          .map((part) => part.totalNanoseconds),
+      ).toEqual([-3n, -2n]);
+    });
+
+    it('should reject an invalid number of parts', () => {
+      expect(() => hours(1).split(0)).toThrow(RangeError);
+      expect(() => hours(1).split(1.5)).toThrow('Number of parts must be a positive integer');
+    });
+
+    it('should chunk into full chunks and a remainder', () => {
+      const { chunks, remainder } = minutes(100).chunk(minutes(30));
+      expect(toClock(chunks)).toEqual(['00:30', '00:30', '00:30']);
+      expect(remainder.toString('hh:mm')).toBe('00:10');
+
+      expect(minutes(90).chunk(minutes(30)).remainder.isZero()).toBe(true);
+      expect(minutes(20).chunk(minutes(30)).chunks).toEqual([]);
+    });
+
+    it('should chunk negative times', () => {
+      const { chunks, remainder } = minutes(-100).chunk(minutes(30));
+      expect(toClock(chunks)).toEqual(['-00:30', '-00:30', '-00:30']);
+      expect(remainder.toString('hh:mm')).toBe('-00:10');
+    });
+
+    it('should reject a non-positive chunk size', () => {
+      expect(() => hours(1).chunk(new SignedTime())).toThrow(RangeError);
+      expect(() => hours(1).chunk(minutes(-1))).toThrow('Chunk size must be positive');
+    });
+  });
+
   // Comparison Methods
   describe('comparison methods', () => {
     it('should correctly compare times for equality', () => {
@@ -109,6 +212,77 @@ describe('SignedTime', () => {
       expect(time2.isGreaterThan(time1)).toBe(true);
     });
 
+    it('should compare with a tolerance', () => {
+      const time = SignedTime.fromMilliseconds(1002);
+      const second = SignedTime.fromSeconds(1);
+      expect(time.equals(second, SignedTime.fromMilliseconds(2))).toBe(true);
+      expect(time.equals(second, SignedTime.fromMilliseconds(1))).toBe(false);
+      expect(second.equals(time, SignedTime.fromMilliseconds(-2))).toBe(true);
+      expect(time.equals(second, new SignedTime())).toBe(false);
+    });
+
+    it('should compare greater/less than or equal', () => {
+      const time1 = new SignedTime(1, 30, 0);
+      const time2 = new SignedTime(2, 0, 0);
+      expect(time1.isLessThanOrEqual(time2)).toBe(true);
+      expect(time1.isLessThanOrEqual(time1)).toBe(true);
+      expect(time2.isLessThanOrEqual(time1)).toBe(false);
+      expect(time2.isGreaterThanOrEqual(time1)).toBe(true);
+      expect(time1.isGreaterThanOrEqual(time1)).toBe(true);
+      expect(time1.isGreaterThanOrEqual(time2)).toBe(false);
+    });
+
+    it('should order times', () => {
+      const times = [
+        SignedTime.fromHours(2),
+        SignedTime.fromMinutes(-5),
+        SignedTime.fromMinutes(30),
+      ];
+      expect(times[0]?.compareTo(times[1] as SignedTime)).toBe(1);
+      expect(times[1]?.compareTo(times[0] as SignedTime)).toBe(-1);
+      expect(times[0]?.compareTo(SignedTime.fromMinutes(120))).toBe(0);
+      expect([...times].sort(SignedTime.compare).map((time) => time.toString('m'))).toEqual([
+        '-5',
+        '30',
+        '120',
+      ]);
+    });
+
+    it('should distinguish sub-millisecond differences when ordering', () => {
+      const a = SignedTime.fromNanoseconds(1n);
+      const b = SignedTime.fromNanoseconds(2n);
+      expect(SignedTime.compare(a, b)).toBeLessThan(0);
+      expect(SignedTime.compare(b, a)).toBeGreaterThan(0);
+    });
+
+    it('should get the min and max of many times', () => {
+      const times = [
+        SignedTime.fromHours(2),
+        SignedTime.fromMinutes(-5),
+        SignedTime.fromMinutes(30),
+      ];
+      expect(SignedTime.min(...times).toString('m')).toBe('-5');
+      expect(SignedTime.max(...times).toString('m')).toBe('120');
+      expect(SignedTime.min(SignedTime.fromHours(1)).toString('h')).toBe('1');
+      expect(() => SignedTime.min()).toThrow('Cannot calculate min of an empty collection');
+      expect(() => SignedTime.max()).toThrow('Cannot calculate max of an empty collection');
+      expect(() => SignedTime.min()).toThrow(EmptyCollectionError);
+    });
+
+    it('should convert to primitives', () => {
+      const short = SignedTime.fromMinutes(30);
+      const long = SignedTime.fromHours(1);
+      expect(short.valueOf()).toBe(1800000);
+      expect(short < long).toBe(true);
+      expect(long > short).toBe(true);
+      expect(short >= SignedTime.fromSeconds(1800)).toBe(true);
+      expect(+long - +short).toBe(1800000);
+      expect((short as unknown as number) + (long as unknown as number)).toBe(5400000);
+      expect((short as unknown as number) == 1800000).toBe(true);
+      expect(`${short}`).toBe('00:30:00.000');
+      expect(String(long)).toBe('01:00:00.000');
+    });
+
     it('should correctly check for zero', () => {
       expect(new SignedTime().isZero()).toBe(true);
       expect(new SignedTime(1, 0, 0).isZero()).toBe(false);
@@ -128,6 +302,11 @@ describe('SignedTime', () => {
       expect(time.isBetween(min, max)).toBe(true);
       expect(min.isBetween(min, max)).toBe(true);
       expect(max.isBetween(min, max)).toBe(true);
+      expect(min.isBetween(min, max, { bounds: '()' })).toBe(false);
+      expect(max.isBetween(min, max, { bounds: '[)' })).toBe(false);
+      expect(min.isBetween(min, max, { bounds: '[)' })).toBe(true);
+      expect(max.isBetween(min, max, { bounds: '(]' })).toBe(true);
+      expect(time.isBetween(min, max, { bounds: '()' })).toBe(true);
       expect(new SignedTime(0, 30, 0).isBetween(min, max)).toBe(false);
     });
   });
@@ -144,6 +323,65 @@ describe('SignedTime', () => {
       expect(time.toString('h:m:s')).toBe('1:30:45');
       expect(time.toString('hh時mm分ss秒SSS')).toBe('01時30分45秒500');
     });
+
+    it('should keep hours unbounded without a day token', () => {
+      expect(SignedTime.fromHours(50).toString('hh:mm')).toBe('50:00');
+    });
+
+    it('should replace every occurrence of a token', () => {
+      expect(new SignedTime(1, 5).toString('h:mm / h')).toBe('1:05 / 1');
+    });
+
+    it('should output escaped and quoted text literally', () => {
+      const time = new SignedTime(1, 30, 45, 500);
+      expect(time.toString('h\\h m\\m s\\s')).toBe('1h 30m 45s');
+      expect(time.toString("h 'hours' m 'minutes' s 'seconds'")).toBe(
+        '1 hours 30 minutes 45 seconds',
+      );
+    });
+
+    it('should format fractions of a second with truncated precision', () => {
+      const time = new SignedTime(0, 0, 1, 259);
+      expect(time.toString('s.S')).toBe('1.2');
+      expect(time.toString('s.SS')).toBe('1.25');
+      expect(time.toString('s.SSS')).toBe('1.259');
+      expect(time.toString('s.SSSS')).toBe('1.2590');
+      expect(new SignedTime(0, 0, 0, 5).toString('ss.SS')).toBe('00.00');
+    });
+
+    it('should omit optional sections whose fields are all zero', () => {
+      const format = 'hh:mm[:ss[.SSS]]';
+      expect(new SignedTime(1, 30).toString(format)).toBe('01:30');
+      expect(new SignedTime(1, 30, 15).toString(format)).toBe('01:30:15');
+      expect(new SignedTime(1, 30, 15, 200).toString(format)).toBe('01:30:15.200');
+      expect(new SignedTime(1, 30, 0, 200).toString(format)).toBe('01:30:00.200');
+      expect(new SignedTime(-1, -30).toString(format)).toBe('-01:30');
+    });
+
+    it('should hide optional sections when the truncated fraction is zero', () => {
+      expect(new SignedTime(0, 0, 5, 40).toString('s[.S]')).toBe('5');
+      expect(new SignedTime(0, 0, 5, 40).toString('s[.SS]')).toBe('5.04');
+    });
+
+    it('should keep the largest unit in the format unbounded', () => {
+      expect(new SignedTime(1, 30, 15).toString('mm:ss')).toBe('90:15');
+    });
+
+    it('should roll hours over into days with a day token', () => {
+      const time = new SignedTime(50, 5, 30);
+      expect(time.toString('d日 hh:mm')).toBe('2日 02:05');
+      expect(time.toString('dd:hh:mm:ss')).toBe('02:02:05:30');
+      expect(time.negate().toString('d:hh:mm')).toBe('-2:02:05');
+      expect(SignedTime.fromHours(5).toString('dd:hh')).toBe('00:05');
+    });
+  });
+
+  describe('toHuman', () => {
+    it('should convert time to natural language', () => {
+      const time = new SignedTime(1, 30, 45);
+      expect(time.toHuman()).toBe('1 hour 30 minutes 45 seconds');
+      expect(time.toHuman({ locale: 'ja', maxUnits: 2 })).toBe('1時間30分');
+    });
   });
 
   describe('fromFormat', () => {
@@ -157,6 +395,59 @@ describe('SignedTime', () => {
       expect(time.toString('h時m分')).toBe('1時30分');
     });
 
+    it('should parse fractions of a second with variable precision', () => {
+      expect(SignedTime.fromFormat('1.2', 's.SSS').totalMilliseconds).toBe(1200);
+      expect(SignedTime.fromFormat('1.25', 's.SSS').totalMilliseconds).toBe(1250);
+      expect(SignedTime.fromFormat('1.259', 's.SSS').totalMilliseconds).toBe(1259);
+      expect(SignedTime.fromFormat('1.25', 's.SS').totalMilliseconds).toBe(1250);
+      expect(SignedTime.fromFormat('1.2', 's.S').totalMilliseconds).toBe(1200);
+      expect(SignedTime.fromFormat('1.25999', 's.SSSSS').totalMilliseconds).toBe(1259.99);
+      expect(() => SignedTime.fromFormat('1.25', 's.S')).toThrow();
+    });
+
+    it('should parse input with or without optional sections', () => {
+      const format = 'h:mm[:ss[.SSS]]';
+      expect(SignedTime.fromFormat('1:30', format).toString()).toBe('01:30:00.000');
+      expect(SignedTime.fromFormat('1:30:15', format).toString()).toBe('01:30:15.000');
+      expect(SignedTime.fromFormat('1:30:15.2', format).toString()).toBe('01:30:15.200');
+      expect(() => SignedTime.fromFormat('1:30:', format)).toThrow();
+      expect(() => SignedTime.fromFormat('1:30.2', format)).toThrow();
+    });
+
+    it('should parse day tokens', () => {
+      expect(SignedTime.fromFormat('2 02:00', 'd hh:mm').toString('hh:mm')).toBe('50:00');
+      expect(SignedTime.fromFormat('01:12:30', 'dd:hh:mm').toString('hh:mm')).toBe('36:30');
+      expect(SignedTime.fromFormat('-1 00:30', 'd hh:mm').toString('hh:mm')).toBe('-24:30');
+    });
+
+    it('should parse escaped and quoted text literally', () => {
+      expect(SignedTime.fromFormat('1h30m', 'h\\hm\\m').toString()).toBe('01:30:00.000');
+      expect(SignedTime.fromFormat('2 hours', "h 'hours'").toString()).toBe('02:00:00.000');
+      expect(SignedTime.fromFormat('15 [min]', "m '[min]'").toString()).toBe('00:15:00.000');
+      // @ts-expect-error: Unquoted letters are accepted at runtime, but rejected at compile time
+      expect(SignedTime.fromFormat('15 [min]', 'm \\[\\mi\\n\\]').toString()).toBe('00:15:00.000');
+    });
+
+    it('should round-trip with toString', () => {
+      const times = [
+        new SignedTime(1, 30, 45, 500),
+        new SignedTime(-123, -4, -5, -6),
+        new SignedTime(0, 0, 0, 7),
+      ];
+      const formats = [
+        'hh:mm:ss.SSS',
+        "d 'days' h:m:s.SSS",
+        'mm:ss.SSS',
+        "h 'h' m 'm' s 's' SSS 'ms'",
+        'hh:mm[:ss[.SSS]]',
+      ];
+      for (const time of times) {
+        for (const format of formats) {
+          expect(SignedTime.fromFormat(time.toString(format), format).equals(time)).toBe(true);
+        }
+      }
+    });
+
     it('should handle negative times', () => {
       const time = SignedTime.fromFormat('-01:30:00.000');
       expect(time.toString()).toBe('-01:30:00.000');
@@ -168,6 +459,114 @@ describe('SignedTime', () => {
     });
   });
 
+  describe('compileFormat', () => {
+    it('should format and parse with a compiled format', () => {
+      const clock = SignedTime.compileFormat('h:mm[:ss]');
+      expect(clock.pattern).toBe('h:mm[:ss]');
+      expect(clock.format(SignedTime.fromMinutes(90))).toBe('1:30');
+      expect(clock.format(new SignedTime(-1, -30, -5))).toBe('-1:30:05');
+      expect(clock.parse('1:30:05').equals(new SignedTime(1, 30, 5))).toBe(true);
+    });
+
+    it('should report parse errors', () => {
+      const clock = SignedTime.compileFormat('h:mm');
+      expect(() => clock.parse('1:3O')).toThrow(ParseError);
+      const result = clock.tryParse('1:3O');
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.position).toBe(2);
+        expect(result.error.format).toBe('h:mm');
+      }
+      expect(clock.tryParse('1:30')).toEqual({ ok: true, value: new SignedTime(1, 30) });
+    });
+
+    it('should reject invalid formats', () => {
+      // @ts-expect-error: Testing invalid format
+      expect(() => SignedTime.compileFormat('h[:mm')).toThrow('Unterminated optional section');
+      // @ts-expect-error: Testing invalid format
+      expect(() => SignedTime.fromFormat('1]', 'h]')).toThrow(InvalidFormatError);
+      // @ts-expect-error: Minutes are skipped
+      expect(SignedTime.compileFormat('hh:ss').format(SignedTime.fromMinutes(61))).toBe('01:00');
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse human-readable durations', () => {
+      expect(SignedTime.parse('1h 30m').toString()).toBe('01:30:00.000');
+      expect(SignedTime.parse('-45s').toString()).toBe('-00:00:45.000');
+      expect(SignedTime.parse('1:30:15.2').toString()).toBe('01:30:15.200');
+    });
+
+    it('should parse sub-millisecond units without losing precision', () => {
+      expect(SignedTime.parse('5us').totalNanoseconds).toBe(5000n);
+      expect(SignedTime.parse('1h 1ns').totalNanoseconds).toBe(3600000000001n);
+    });
+
+    it('should pass options to the parser', () => {
+      expect(SignedTime.parse('2 Std', { units: { std: 'hour' } }).toString()).toBe('02:00:00.000');
+    });
+
+    it('should throw ParseError for invalid input', () => {
+      expect(() => SignedTime.parse('1h 30x')).toThrow(ParseError);
+    });
+  });
+
+  describe('ISO 8601 durations', () => {
+    it('should parse time components', () => {
+      expect(SignedTime.fromISO('PT1H30M45.5S').toString()).toBe('01:30:45.500');
+      expect(SignedTime.fromISO('PT90M').toString()).toBe('01:30:00.000');
+      expect(SignedTime.fromISO('PT0,25S').toString()).toBe('00:00:00.250');
+      expect(SignedTime.fromISO('PT1.5H').toString()).toBe('01:30:00.000');
+    });
+
+    it('should parse day and week components', () => {
+      expect(SignedTime.fromISO('P1DT2H').toString()).toBe('26:00:00.000');
+      expect(SignedTime.fromISO('P2D').toString()).toBe('48:00:00.000');
+      expect(SignedTime.fromISO('P1W').toString()).toBe('168:00:00.000');
+    });
+
+    it('should parse signed durations', () => {
+      expect(SignedTime.fromISO('-PT15M').toString()).toBe('-00:15:00.000');
+      expect(SignedTime.fromISO('+PT15M').toString()).toBe('00:15:00.000');
+    });
+
+    it('should reject calendar units', () => {
+      expect(() => SignedTime.fromISO('P1Y')).toThrow('Years and months are not supported');
+      expect(() => SignedTime.fromISO('P2M')).toThrow('Years and months are not supported');
+      expect(() => SignedTime.fromISO('P1Y2M3DT4H')).toThrow('Years and months are not supported');
+    });
+
+    it('should reject invalid strings', () => {
+      expect(() => SignedTime.fromISO('')).toThrow('Invalid ISO 8601 duration');
+      expect(() => SignedTime.fromISO('P')).toThrow('Invalid ISO 8601 duration');
+      expect(() => SignedTime.fromISO('PT')).toThrow('Invalid ISO 8601 duration');
+      expect(() => SignedTime.fromISO('P1DT')).toThrow('Invalid ISO 8601 duration');
+      expect(() => SignedTime.fromISO('PT1S2M')).toThrow('Invalid ISO 8601 duration');
+      expect(() => SignedTime.fromISO('01:30:00')).toThrow('Invalid ISO 8601 duration');
+    });
+
+    it('should serialize to ISO 8601', () => {
+      expect(new SignedTime(1, 30, 45, 500).toISO()).toBe('PT1H30M45.5S');
+      expect(SignedTime.fromMinutes(-15).toISO()).toBe('-PT15M');
+      expect(SignedTime.fromHours(26).toISO()).toBe('P1DT2H');
+      expect(SignedTime.fromHours(48).toISO()).toBe('P2D');
+      expect(SignedTime.fromMilliseconds(5).toISO()).toBe('PT0.005S');
+      expect(new SignedTime().toISO()).toBe('PT0S');
+    });
+
+    it('should optionally keep days in hours', () => {
+      expect(SignedTime.fromHours(26).toISO({ days: false })).toBe('PT26H');
+    });
+
+    it('should round-trip', () => {
+      for (const iso of ['PT1H30M45.5S', '-PT15M', 'P1DT2H', 'P3DT0.001S', 'PT0S']) {
+        expect(SignedTime.fromISO(iso).toISO()).toBe(iso);
+      }
+      const time = new SignedTime(-49, -59, -59, -999);
+      expect(SignedTime.fromISO(time.toISO()).equals(time)).toBe(true);
+    });
+  });
+
   // Utility Methods
   describe('utility methods', () => {
     it('should correctly round to second', () => {
@@ -185,6 +584,38 @@ describe('SignedTime', () => {
       expect(new SignedTime(1, 30, 0, 0).roundToHour().toString()).toBe('02:00:00.000');
     });
 
+    it('should round negative halves away from zero by default', () => {
+      expect(new SignedTime(0, 0, -1, -500).roundToSecond().toString()).toBe('-00:00:02.000');
+      expect(new SignedTime(0, 0, 0, -500).roundToSecond().toString()).toBe('-00:00:01.000');
+      expect(new SignedTime(0, -1, -30).roundToMinute().toString()).toBe('-00:02:00.000');
+      expect(new SignedTime(-1, -30).roundToHour().toString()).toBe('-02:00:00.000');
+    });
+
+    it('should round to units with a rounding mode', () => {
+      expect(new SignedTime(0, 0, 1, 500).roundToSecond('halfEven').toString()).toBe(
+        '00:00:02.000',
+      );
+      expect(new SignedTime(0, 0, 2, 500).roundToSecond('halfEven').toString()).toBe(
+        '00:00:02.000',
+      );
+      expect(new SignedTime(0, 1, 1).roundToMinute('ceil').toString()).toBe('00:02:00.000');
+      expect(new SignedTime(-1, -59).roundToHour('trunc').toString()).toBe('-01:00:00.000');
+    });
+
+    it('should round to arbitrary increments', () => {
+      const time = new SignedTime(1, 7, 30);
+      const quarter = SignedTime.fromMinutes(15);
+      expect(time.round(quarter).toString()).toBe('01:15:00.000');
+      expect(time.round(quarter, 'floor').toString()).toBe('01:00:00.000');
+      expect(time.round(SignedTime.fromMinutes(6), 'ceil').toString()).toBe('01:12:00.000');
+      expect(time.negate().round(quarter, 'floor').toString()).toBe('-01:15:00.000');
+      expect(time.round(quarter.negate()).toString()).toBe('01:15:00.000');
+    });
+
+    it('should throw error for a zero increment', () => {
+      expect(() => new SignedTime(1).round(new SignedTime())).toThrow(RangeError);
+    });
+
     it('should correctly clamp time', () => {
       const min = new SignedTime(1, 0, 0);
       const max = new SignedTime(3, 0, 0);
@@ -196,6 +627,12 @@ describe('SignedTime', () => {
 
   // Getters
   describe('getters', () => {
+    it('should correctly get days', () => {
+      expect(SignedTime.fromHours(50).days).toBe(2);
+      expect(SignedTime.fromHours(23).days).toBe(0);
+      expect(SignedTime.fromHours(-50).days).toBe(-2);
+    });
+
     it('should correctly get total milliseconds', () => {
       const time = new SignedTime(1, 30, 45, 500);
       expect(time.totalMilliseconds).toBe(5445500);
@@ -209,4 +646,320 @@ describe('SignedTime', () => {
       expect(time.milliseconds).toBe(-500);
     });
   });
+
+  describe('units and breakdowns', () => {
+    it('should get the total in a unit', () => {
+      const time = new SignedTime(1, 30);
+      expect(time.total('hour')).toBe(1.5);
+      expect(time.total('minutes')).toBe(90);
+      expect(time.as('seconds')).toBe(5400);
+      expect(SignedTime.fromDays(3.5).total('week')).toBe(0.5);
+      expect(SignedTime.fromNanoseconds(1500n).as('microsecond')).toBe(1.5);
+      expect(new SignedTime(-1, -30).total('hours')).toBe(-1.5);
+    });
+
+    it('should reject unsupported units', () => {
+      // @ts-expect-error: Testing invalid unit
+      expect(() => new SignedTime(1).total('month')).toThrow('Invalid unit: month');
+    });
+
+    it('should provide total getters', () => {
+      const time = new SignedTime(36);
+      expect(time.totalDays).toBe(1.5);
+      expect(time.totalHours).toBe(36);
+      expect(time.totalMinutes).toBe(2160);
+      expect(time.totalSeconds).toBe(129600);
+    });
+
+    it('should break down into the specified units', () => {
+      const time = new SignedTime(1, 35, 30);
+      expect(time.toObject({ units: ['minutes', 'seconds'] })).toEqual({
+        minutes: 95,
+        seconds: 30,
+      });
+      expect(time.toObject({ units: ['second', 'hour'] })).toEqual({ hours: 1, seconds: 2130 });
+      expect(SignedTime.fromDays(10).toObject({ units: ['weeks', 'days', 'hours'] })).toEqual({
+        weeks: 1,
+        days: 3,
+        hours: 0,
+      });
+    });
+
+    it('should keep the rest as a fraction of the smallest unit', () => {
+      expect(new SignedTime(0, 1, 30, 500).toObject({ units: ['minutes', 'seconds'] })).toEqual({
+        minutes: 1,
+        seconds: 30.5,
+      });
+      expect(new SignedTime(1, 45).toObject({ units: ['hours'] })).toEqual({ hours: 1.75 });
+    });
+
+    it('should break down into days to nanoseconds by default', () => {
+      expect(SignedTime.fromNanoseconds(93784005006007n).toObject()).toEqual({
+        days: 1,
+        hours: 2,
+        minutes: 3,
+        seconds: 4,
+        milliseconds: 5,
+        microseconds: 6,
+        nanoseconds: 7,
+      });
+    });
+
+    it('should give all fields the sign of the time', () => {
+      const object = new SignedTime(-1, -30).toObject({ units: ['hours', 'minutes', 'seconds'] });
+      expect(object).toEqual({ hours: -1, minutes: -30, seconds: 0 });
+      expect(Object.is(object.seconds, 0)).toBe(true);
+    });
+
+    it('should reject empty or unsupported units', () => {
+      expect(() => new SignedTime(1).toObject({ units: [] })).toThrow(RangeError);
+      // @ts-expect-error: Testing invalid unit
+      expect(() => new SignedTime(1).toObject({ units: ['years'] })).toThrow('Invalid unit: years');
+    });
+
+    it('should create a time from an object', () => {
+      expect(SignedTime.from({ minutes: 95, seconds: 30 }).toString()).toBe('01:35:30.000');
+      expect(SignedTime.from({ weeks: 1, days: -1 }).totalDays).toBe(6);
+      expect(SignedTime.from({ hours: 1.5, nanoseconds: 1 }).totalNanoseconds).toBe(5400000000001n);
+      expect(SignedTime.from({}).isZero()).toBe(true);
+      expect(() => SignedTime.from({ hours: NaN })).toThrow(InvalidDurationError);
+    });
+
+    it('should round-trip through toObject', () => {
+      const time = SignedTime.fromNanoseconds(-123456789012345n);
+      expect(SignedTime.from(time.toObject()).equals(time)).toBe(true);
+      expect(SignedTime.from(time.toObject({ units: ['minute', 'nanosecond'] })).equals(time)).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('nanosecond precision', () => {
+    it('should create instances from microseconds and nanoseconds', () => {
+      expect(SignedTime.fromNanoseconds(1500n).totalNanoseconds).toBe(1500n);
+      expect(SignedTime.fromNanoseconds(1500.4).totalNanoseconds).toBe(1500n);
+      expect(SignedTime.fromMicroseconds(1500).totalMilliseconds).toBe(1.5);
+      expect(SignedTime.fromMicroseconds(-2n).totalNanoseconds).toBe(-2000n);
+    });
+
+    it('should create instances from hrtime values', () => {
+      expect(SignedTime.fromHrtime(1234567891n).totalNanoseconds).toBe(1234567891n);
+      expect(SignedTime.fromHrtime([1, 234567891]).totalNanoseconds).toBe(1234567891n);
+    });
+
+    it('should round fractional inputs to whole nanoseconds', () => {
+      expect(SignedTime.fromHours(0.1).equals(SignedTime.fromMinutes(6))).toBe(true);
+      expect(SignedTime.fromMilliseconds(0.1 + 0.2).totalNanoseconds).toBe(300000n);
+    });
+
+    it('should keep integer semantics for arithmetic', () => {
+      const third = SignedTime.fromSeconds(10).divide(3);
+      expect(third.totalNanoseconds).toBe(3333333333n);
+      expect(third.toString()).toBe('00:00:03.333');
+      expect(SignedTime.fromSeconds(-1).divide(3).totalNanoseconds).toBe(-333333333n);
+      expect(SignedTime.fromHours(1).divide(3).multiply(3).equals(SignedTime.fromHours(1))).toBe(
+        true,
+      );
+      expect(SignedTime.fromNanoseconds(3n).multiply(0.5).totalNanoseconds).toBe(2n);
+    });
+
+    it('should stay exact beyond the safe integer range of milliseconds in nanoseconds', () => {
+      const large = SignedTime.fromNanoseconds(2n ** 60n);
+      expect(large.add(SignedTime.fromNanoseconds(1n)).subtract(large).totalNanoseconds).toBe(1n);
+    });
+
+    it('should get microsecond and nanosecond components', () => {
+      const time = SignedTime.fromNanoseconds(1234567891n);
+      expect(time.milliseconds).toBe(234);
+      expect(time.microseconds).toBe(567);
+      expect(time.nanoseconds).toBe(891);
+      expect(time.totalMicroseconds).toBe(1234567.891);
+      expect(time.negate().nanoseconds).toBe(-891);
+    });
+
+    it('should format sub-millisecond precision', () => {
+      const time = SignedTime.fromNanoseconds(1234567891n);
+      expect(time.toString('ss.SSSSSSSSS')).toBe('01.234567891');
+      expect(time.toString('ss.SSS uuu nnn')).toBe('01.234 567 891');
+      expect(SignedTime.fromFormat('01.234567891', 'ss.SSSSSSSSS').equals(time)).toBe(true);
+      expect(time.toISO()).toBe('PT1.234567891S');
+    });
+  });
+
+  describe('input validation', () => {
+    it('should reject non-finite values', () => {
+      expect(() => new SignedTime(NaN)).toThrow(InvalidDurationError);
+      expect(() => SignedTime.fromMinutes(Infinity)).toThrow(InvalidDurationError);
+      expect(() => SignedTime.fromDays(-Infinity)).toThrow(InvalidDurationError);
+      expect(() => SignedTime.fromNanoseconds(NaN)).toThrow(InvalidDurationError);
+      expect(() => SignedTime.fromHrtime([1, NaN])).toThrow(InvalidDurationError);
+      expect(() => SignedTime.fromSeconds(1).multiply(NaN)).toThrow(InvalidDurationError);
+      expect(() => SignedTime.fromSeconds(1).divide(Infinity)).toThrow(InvalidDurationError);
+    });
+
+    it('should reject non-numeric values', () => {
+      // @ts-expect-error: Testing invalid input type
+      expect(() => new SignedTime('1')).toThrow(InvalidDurationError);
+      // @ts-expect-error: Testing invalid input type
+      expect(() => SignedTime.fromHours(null)).toThrow(InvalidDurationError);
+    });
+
+    it('should report the argument and value', () => {
+      try {
+        new SignedTime(1, NaN);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(TimeDeltaError);
+        expect(error).toMatchObject({ name: 'InvalidDurationError', argument: 'minutes' });
+        expect((error as InvalidDurationError).value).toBeNaN();
+      }
+      expect(() => SignedTime.fromDays(NaN)).toThrow("'days'");
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => SignedTime.fromDate(new Date('invalid'))).toThrow(InvalidDateError);
+    });
+
+    it('should throw DivisionByZeroError', () => {
+      expect(() => SignedTime.fromSeconds(1).divide(0)).toThrow(DivisionByZeroError);
+      expect(() => SignedTime.fromSeconds(1).divide(0)).toThrow(TimeDeltaError);
+    });
+  });
+
+  describe('parse errors', () => {
+    /**
+     * Gets the ParseError thrown by a parser
+     *
+     * @param {Function} parse - Parser call
+     * @returns {ParseError} Thrown error
+     */
+    const parseError = (parse: () => unknown): ParseError => {
+      try {
+        parse();
+      } catch (error) {
+        if (error instanceof ParseError) {
+          return error;
+        }
+      }
+      throw new Error('Expected a ParseError');
+    };
+
+    it('should report the input, format and position for fromFormat', () => {
+      const error = parseError(() => SignedTime.fromFormat('01:3x:00', 'hh:mm:ss'));
+      expect(error).toBeInstanceOf(TimeDeltaError);
+      expect(error.message).toBe('Invalid time string format. Expected format: hh:mm:ss');
+      expect(error.input).toBe('01:3x:00');
+      expect(error.format).toBe('hh:mm:ss');
+      expect(error.position).toBe(3);
+      expect(parseError(() => SignedTime.fromFormat('-1:30', 'h:mm:ss')).position).toBe(5);
+    });
+
+    it('should report the position for fromISO', () => {
+      expect(parseError(() => SignedTime.fromISO('PT1H2X')).position).toBe(4);
+      expect(parseError(() => SignedTime.fromISO('P1Y')).position).toBe(1);
+      expect(parseError(() => SignedTime.fromISO('P1DT')).position).toBe(4);
+      expect(parseError(() => SignedTime.fromISO('01:30')).position).toBe(0);
+      expect(parseError(() => SignedTime.fromISO('PT')).format).toBeUndefined();
+    });
+  });
+
+  describe('result-returning parsers', () => {
+    it('should return parsed values', () => {
+      const parsed = SignedTime.tryParse('1h 30m');
+      expect(parsed.ok && parsed.value.equals(SignedTime.fromMinutes(90))).toBe(true);
+      expect(SignedTime.tryFromFormat('1:30', 'h:mm')).toMatchObject({ ok: true });
+      expect(SignedTime.tryFromISO('PT1H').ok).toBe(true);
+    });
+
+    it('should return parse errors', () => {
+      const parsed = SignedTime.tryParse('1h 30x');
+      expect(parsed.ok).toBe(false);
+      expect(!parsed.ok && parsed.error.position).toBe(5);
+
+      const formatted = SignedTime.tryFromFormat('1:3O', 'h:mm');
+      expect(!formatted.ok && formatted.error).toBeInstanceOf(ParseError);
+      expect(!formatted.ok && formatted.error.position).toBe(2);
+
+      const iso = SignedTime.tryFromISO('P1Y');
+      expect(!iso.ok && iso.error.message).toContain('Years and months are not supported');
+    });
+
+    it('should return InvalidFormatError for invalid formats', () => {
+      // @ts-expect-error: Testing invalid format
+      const result = SignedTime.tryFromFormat('1:30', "h:mm 'x");
+      expect(!result.ok && result.error).toBeInstanceOf(InvalidFormatError);
+      expect(!result.ok && result.error.position).toBe(5);
+    });
+  });
+
+  describe('serialization', () => {
+    const time = new SignedTime(1, 30, 0, 250);
+
+    it('should serialize to JSON as an ISO 8601 duration', () => {
+      expect(JSON.stringify({ time })).toBe('{"time":"PT1H30M0.25S"}');
+      expect(JSON.stringify(SignedTime.fromNanoseconds(-1n))).toBe('"-PT0.000000001S"');
+    });
+
+    it('should serialize in a selected format', () => {
+      expect(time.toJSON({ format: 'milliseconds' })).toBe(5400250);
+      expect(time.toJSON({ format: 'clock' })).toBe('01:30:00.250');
+      expect(time.toJSON({ format: 'iso' })).toBe('PT1H30M0.25S');
+      expect(JSON.stringify({ time }, SignedTime.replacer('milliseconds'))).toBe(
+        '{"time":5400250}',
+      );
+      expect(JSON.stringify([time, 'clock'], SignedTime.replacer('clock'))).toBe(
+        '["01:30:00.250","clock"]',
+      );
+      expect(JSON.stringify(time, SignedTime.replacer())).toBe('"PT1H30M0.25S"');
+    });
+
+    it('should not mistake property names for formats', () => {
+      expect(JSON.stringify({ clock: time, milliseconds: time })).toBe(
+        '{"clock":"PT1H30M0.25S","milliseconds":"PT1H30M0.25S"}',
+      );
+    });
+
+    it('should revive ISO 8601 durations', () => {
+      const revived = JSON.parse(
+        JSON.stringify({ time, nested: [SignedTime.fromNanoseconds(1n)], label: 'P1Y' }),
+        SignedTime.reviver,
+      );
+      expect(revived.time).toBeInstanceOf(SignedTime);
+      expect(revived.time.equals(time)).toBe(true);
+      expect(revived.nested[0].totalNanoseconds).toBe(1n);
+      expect(revived.label).toBe('P1Y');
+    });
+
+    it('should revive other formats for selected keys', () => {
+      const reviver = SignedTime.createReviver({ format: 'milliseconds', keys: ['time'] });
+      const revived = JSON.parse('{"time":5400250,"count":3}', reviver);
+      expect(revived.time.equals(time)).toBe(true);
+      expect(revived.count).toBe(3);
+
+      const clock = JSON.parse(
+        '{"time":"01:30:00.250","name":"x"}',
+        SignedTime.createReviver({ format: 'clock' }),
+      );
+      expect(clock.time.equals(time)).toBe(true);
+      expect(clock.name).toBe('x');
+    });
+
+    it('should round-trip the plain object form', () => {
+      const precise = SignedTime.fromNanoseconds(-(2n ** 70n) - 1n);
+      const plain = precise.toPlain();
+      expect(plain).toEqual({ $type: 'SignedTime', nanoseconds: '-1180591620717411303425' });
+      expect(SignedTime.fromPlain(structuredClone(plain)).equals(precise)).toBe(true);
+      expect(SignedTime.isPlain(plain)).toBe(true);
+      expect(SignedTime.isPlain({ nanoseconds: '1' })).toBe(false);
+      expect(JSON.parse(JSON.stringify({ plain }), SignedTime.reviver).plain.equals(precise)).toBe(
+        true,
+      );
+    });
+
+    it('should reject invalid plain objects', () => {
+      expect(() => SignedTime.fromPlain({ $type: 'SignedTime', nanoseconds: '1.5' })).toThrow(
+        InvalidDurationError,
+      );
+    });
+  });
 });
@@ -1,8 +1,236 @@
+import { DurationFormat } from './durationFormat';
+import type { DurationFormatOptions } from './durationFormat';
+import {
+  DivisionByZeroError,
+  EmptyCollectionError,
+  InvalidDateError,
+  InvalidDurationError,
+  ParseError,
+} from './errors';
+import type { ParseResult } from './errors';
+import { compileFormat } from './format';
+import type { FormatString } from './format';
+import { humanizeMilliseconds } from './humanize';
+import type { HumanizeOptions } from './humanize';
+import { parseDuration } from './parse';
+import type { ParseOptions } from './parse';
+import { divideBigInt, roundBigIntToIncrement } from './rounding';
+import type { RoundingMode } from './rounding';
+
+/** Units of time with a fixed length */
+export type SignedTimeUnit =
+  | 'week'
+  | 'day'
+  | 'hour'
+  | 'minute'
+  | 'second'
+  | 'millisecond'
+  | 'microsecond'
+  | 'nanosecond';
+
+/** Field name of a unit in a broken-down time (the plural of the unit) */
+export type SignedTimeField = `${SignedTimeUnit}s`;
+
+/** Time broken down into units, as used by {@link SignedTime.from} and {@link SignedTime#toObject} */
+export type SignedTimeObject = Partial<Record<SignedTimeField, number>>;
+
+/** Options for {@link SignedTime#toObject} */
+export interface SignedTimeObjectOptions {
+  /** Units to break the time down into, in any order and singular or plural (default: days to nanoseconds) */
+  units?: readonly (SignedTimeUnit | SignedTimeField)[];
+}
+
+/** Length of each unit in nanoseconds, from largest to smallest */
+const NANOSECONDS: Readonly<Record<SignedTimeUnit, bigint>> = {
+  week: 604800000000000n,
+  day: 86400000000000n,
+  hour: 3600000000000n,
+  minute: 60000000000n,
+  second: 1000000000n,
+  millisecond: 1000000n,
+  microsecond: 1000n,
+  nanosecond: 1n,
+};
+
+/** Default units of {@link SignedTime#toObject} */
+const OBJECT_UNITS: readonly SignedTimeUnit[] = [
+  'day',
+  'hour',
+  'minute',
+  'second',
+  'millisecond',
+  'microsecond',
+  'nanosecond',
+];
+
+/**
+ * Converts a unit or field name to a unit
+ *
+ * @param {string} unit - Unit, singular or plural
+ * @returns {SignedTimeUnit} Singular unit
+ * @throws {RangeError} When the unit is not supported
+ */
+const toUnit = (unit: SignedTimeUnit | SignedTimeField): SignedTimeUnit => {
+  const singular = unit.endsWith('s') ? unit.slice(0, -1) : unit;
+  if (!Object.prototype.hasOwnProperty.call(NANOSECONDS, singular)) {
+    throw new RangeError(`Invalid unit: ${String(unit)}`);
+  }
+  return singular as SignedTimeUnit;
+};
+
+/**
+ * Divides nanoseconds by the length of a unit, keeping the precision of the integer part
+ *
+ * @param {bigint} nanoseconds - Nanoseconds
+ * @param {bigint} unitNanoseconds - Length of the unit in nanoseconds
+ * @returns {number} Quotient with the remainder as a fraction
+ */
+const toUnitValue = (nanoseconds: bigint, unitNanoseconds: bigint): number =>
+  Number(nanoseconds / unitNanoseconds) +
+  Number(nanoseconds % unitNanoseconds) / Number(unitNanoseconds);
+
+/**
+ * Validates that a numeric argument is a finite number
+ *
+ * @param {number} value - Value to validate
+ * @param {string} argument - Name of the argument reported when the value is invalid
+ * @returns {number} The value
+ * @throws {InvalidDurationError} When the value is not a finite number
+ */
+const assertFinite = (value: number, argument: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new InvalidDurationError(argument, value);
+  }
+  return value;
+};
+
+/**
+ * Converts a number of a unit to whole nanoseconds, rounding to the nearest nanosecond
+ *
+ * @param {number} value - Number of the unit
+ * @param {bigint} unitNanoseconds - Length of the unit in nanoseconds
+ * @param {string} argument - Name of the argument reported when the value is invalid
+ * @returns {bigint} Nanoseconds
+ * @throws {InvalidDurationError} When the value is not a finite number
+ */
+const toNanoseconds = (value: number, unitNanoseconds: bigint, argument: string): bigint =>
+  Number.isInteger(assertFinite(value, argument))
+    ? BigInt(value) * unitNanoseconds
+    : BigInt(Math.round(value * Number(unitNanoseconds)));
+
+/**
+ * Runs a parser, returning its ParseError as a failed result instead of throwing it
+ *
+ * @param {Function} parse - Parser
+ * @returns {ParseResult<SignedTime>} Parsed time, or the error
+ * @throws {Error} When the parser throws an error other than a ParseError
+ */
+const toParseResult = (parse: () => SignedTime): ParseResult<SignedTime> => {
+  try {
+    return { ok: true, value: parse() };
+  } catch (error) {
+    if (error instanceof ParseError) {
+      return { ok: false, error };
+    }
+    throw error;
+  }
+};
+
+/** Number of an ISO 8601 duration component, with `.` or `,` as the decimal separator */
+const ISO_NUMBER = '(\\d+(?:[.,]\\d+)?)';
+
+/** Components of an ISO 8601 duration after the `P` designator */
+const ISO_COMPONENTS = `(?:${ISO_NUMBER}W)?(?:${ISO_NUMBER}D)?(?:T(?:${ISO_NUMBER}H)?(?:${ISO_NUMBER}M)?(?:${ISO_NUMBER}S)?)?`;
+
+/** ISO 8601 duration with weeks, days, hours, minutes and seconds */
+const ISO_DURATION_PATTERN = new RegExp(`^([-+])?P${ISO_COMPONENTS}$`, 'i');
+
+/** Longest valid start of an ISO 8601 duration, for locating the offending character */
+const ISO_DURATION_PREFIX_PATTERN = new RegExp(`^[-+]?(?:P${ISO_COMPONENTS})?`, 'i');
+
+/**
+ * Representation of a SignedTime in JSON
+ *
+ * - `iso`: ISO 8601 duration string (e.g. "PT1H30M"), exact to the nanosecond
+ * - `milliseconds`: Total milliseconds as a number (sub-millisecond precision as a fraction)
+ * - `clock`: Clock string in 'hh:mm:ss.SSS' format (e.g. "01:30:00.000"), exact to the millisecond
+ */
+export type SignedTimeJSONFormat = 'iso' | 'milliseconds' | 'clock';
+
+/**
+ * Plain object form of a SignedTime, which survives `structuredClone`, `postMessage` and JSON
+ */
+export interface SignedTimePlain {
+  /** Marker identifying the object as a SignedTime */
+  $type: 'SignedTime';
+  /** Total nanoseconds as a decimal integer string */
+  nanoseconds: string;
+}
+
+/** Options for {@link SignedTime.range} */
+export interface SignedTimeRangeOptions {
+  /** Whether to include the end when a step lands exactly on it (default: false) */
+  inclusive?: boolean;
+}
+
+/** Result of {@link SignedTime#chunk} */
+export interface SignedTimeChunks {
+  /** Chunks of the full size, in order */
+  chunks: SignedTime[];
+  /** Time left over after the chunks (zero when the time is a multiple of the size) */
+  remainder: SignedTime;
+}
+
+/** Format string compiled once for repeated formatting and parsing, created by {@link SignedTime.compileFormat} */
+export interface SignedTimeFormat {
+  /** Format string */
+  readonly pattern: string;
+  /**
+   * Formats a time (see {@link SignedTime#toString})
+   *
+   * @param {SignedTime} time - Time to format
+   * @returns {string} Formatted time string
+   */
+  format(time: SignedTime): string;
+  /**
+   * Parses a time string (see {@link SignedTime.fromFormat})
+   *
+   * @param {string} timeString - Time string to parse
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {ParseError} When the time string does not match the format
+   */
+  parse(timeString: string): SignedTime;
+  /**
+   * Parses a time string without throwing (see {@link SignedTime.tryFromFormat})
+   *
+   * @param {string} timeString - Time string to parse
+   * @returns {ParseResult<SignedTime>} Parsed time, or the ParseError
+   */
+  tryParse(timeString: string): ParseResult<SignedTime>;
+}
+
+/** Default format of {@link SignedTime#toString} and {@link SignedTime.fromFormat} */
+const DEFAULT_FORMAT = 'hh:mm:ss.SSS';
+
+/** Format of clock strings in JSON */
+const JSON_CLOCK_FORMAT = 'hh:mm:ss.SSS';
+
+/**
+ * Gets the absolute value of a bigint
+ *
+ * @param {bigint} value - Value
+ * @returns {bigint} Absolute value
+ */
+const absBigInt = (value: bigint): bigint => (value < 0n ? -value : value);
+
 /**
  * Class representing signed time
  *
- * Handles time in hours, minutes, seconds, and milliseconds units,
- * supporting signed values, arithmetic operations, and comparison operations.
+ * Handles time in days, hours, minutes, seconds, milliseconds, microseconds and nanoseconds
+ * units, supporting signed values, arithmetic operations, and comparison operations.
+ *
+ * Time is stored as an integer number of nanoseconds, so arithmetic is exact and
+ * fractional inputs are rounded to the nearest nanosecond.
  *
  * @example
  * ```typescript
@@ -20,451 +248,1490 @@
  * ```
  */
 export class SignedTime {
-  /** Internal time representation (milliseconds) */
-  #totalMilliseconds: number;
+  /** Internal time representation (nanoseconds) */
+  #totalNanoseconds: bigint;
+
+  /**
+   * Creates a SignedTime instance
+   *
+   * @param {number} hours - Hours (default: 0)
+   * @param {number} minutes - Minutes (default: 0)
+   * @param {number} seconds - Seconds (default: 0)
+   * @param {number} milliseconds - Milliseconds (default: 0)
+   * @throws {InvalidDurationError} When a value is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = new SignedTime(1, 30, 45, 500);
+   * ```
+   */
+  constructor(
+    hours: number = 0,
+    minutes: number = 0,
+    seconds: number = 0,
+    milliseconds: number = 0,
+  ) {
+    this.#totalNanoseconds =
+      toNanoseconds(hours, NANOSECONDS.hour, 'hours') +
+      toNanoseconds(minutes, NANOSECONDS.minute, 'minutes') +
+      toNanoseconds(seconds, NANOSECONDS.second, 'seconds') +
+      toNanoseconds(milliseconds, NANOSECONDS.millisecond, 'milliseconds');
+  }
+
+  /**
+   * Creates a SignedTime instance from nanoseconds
+   *
+   * @param {bigint | number} nanoseconds - Nanoseconds (numbers are rounded to an integer)
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the value is neither a bigint nor a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromNanoseconds(1500n); // 1.5 microseconds
+   * ```
+   */
+  static fromNanoseconds(nanoseconds: bigint | number): SignedTime {
+    const time = new SignedTime();
+    time.#totalNanoseconds =
+      typeof nanoseconds === 'bigint' ? nanoseconds : toNanoseconds(nanoseconds, 1n, 'nanoseconds');
+    return time;
+  }
+
+  /**
+   * Creates a SignedTime instance from microseconds
+   *
+   * @param {bigint | number} microseconds - Microseconds
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the value is neither a bigint nor a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromMicroseconds(1500); // 1.5 milliseconds
+   * ```
+   */
+  static fromMicroseconds(microseconds: bigint | number): SignedTime {
+    return SignedTime.fromNanoseconds(
+      typeof microseconds === 'bigint'
+        ? microseconds * NANOSECONDS.microsecond
+        : toNanoseconds(microseconds, NANOSECONDS.microsecond, 'microseconds'),
+    );
+  }
+
+  /**
+   * Creates a SignedTime instance from a high-resolution time of Node.js
+   *
+   * Accepts both the bigint of `process.hrtime.bigint()` and the `[seconds, nanoseconds]`
+   * tuple of `process.hrtime()`. Since these are measured from an arbitrary point in the
+   * past, they are mainly useful as the difference between two measurements.
+   *
+   * @param {bigint | readonly [number, number]} hrtime - Nanoseconds, or a `[seconds, nanoseconds]` tuple
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When a tuple element is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const start = process.hrtime.bigint();
+   * doWork();
+   * const elapsed = SignedTime.fromHrtime(process.hrtime.bigint() - start);
+   *
+   * const diff = SignedTime.fromHrtime(process.hrtime(previous));
+   * ```
+   */
+  static fromHrtime(hrtime: bigint | readonly [seconds: number, nanoseconds: number]): SignedTime {
+    if (typeof hrtime === 'bigint') {
+      return SignedTime.fromNanoseconds(hrtime);
+    }
+    return SignedTime.fromNanoseconds(
+      toNanoseconds(hrtime[0], NANOSECONDS.second, 'seconds') +
+        toNanoseconds(hrtime[1], 1n, 'nanoseconds'),
+    );
+  }
+
+  /**
+   * Creates a SignedTime instance from milliseconds
+   *
+   * @param {number} milliseconds - Milliseconds
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the value is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromMilliseconds(5000); // 5 seconds
+   * ```
+   */
+  static fromMilliseconds(milliseconds: number): SignedTime {
+    return new SignedTime(0, 0, 0, milliseconds);
+  }
+
+  /**
+   * Creates a SignedTime instance from days
+   *
+   * A day is always treated as exactly 24 hours.
+   *
+   * @param {number} days - Days
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the value is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromDays(1.5); // 36 hours
+   * ```
+   */
+  static fromDays(days: number): SignedTime {
+    return new SignedTime(assertFinite(days, 'days') * 24, 0, 0, 0);
+  }
+
+  /**
+   * Creates a SignedTime instance from hours
+   *
+   * @param {number} hours - Hours
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the value is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromHours(2); // 2 hours
+   * ```
+   */
+  static fromHours(hours: number): SignedTime {
+    return new SignedTime(hours, 0, 0, 0);
+  }
+
+  /**
+   * Creates a SignedTime instance from minutes
+   *
+   * @param {number} minutes - Minutes
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the value is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromMinutes(30); // 30 minutes
+   * ```
+   */
+  static fromMinutes(minutes: number): SignedTime {
+    return new SignedTime(0, minutes, 0, 0);
+  }
+
+  /**
+   * Creates a SignedTime instance from seconds
+   *
+   * @param {number} seconds - Seconds
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the value is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromSeconds(45); // 45 seconds
+   * ```
+   */
+  static fromSeconds(seconds: number): SignedTime {
+    return new SignedTime(0, 0, seconds, 0);
+  }
+
+  /**
+   * Creates a SignedTime instance from a time broken down into units
+   *
+   * The fields are added together, so they may exceed the size of the next larger unit,
+   * have different signs, or be fractional (rounded to the nearest nanosecond).
+   * This is the inverse of {@link SignedTime#toObject}.
+   *
+   * @param {SignedTimeObject} object - Time broken down into units (missing fields are zero)
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When a field is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.from({ minutes: 95, seconds: 30 }); // 1 hour 35 minutes 30 seconds
+   * const week = SignedTime.from({ weeks: 1, days: -1 }); // 6 days
+   * ```
+   */
+  static from(object: SignedTimeObject): SignedTime {
+    let nanoseconds = 0n;
+    for (const [unit, unitNanoseconds] of Object.entries(NANOSECONDS)) {
+      const field = `${unit}s` as SignedTimeField;
+      const value = object[field];
+      if (value !== undefined) {
+        nanoseconds += toNanoseconds(value, unitNanoseconds, field);
+      }
+    }
+    return SignedTime.fromNanoseconds(nanoseconds);
+  }
+
+  /**
+   * Creates a SignedTime instance from the time portion of a Date object
+   *
+   * @param {Date} date - Date object
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDateError} When the date is invalid
+   *
+   * @example
+   * ```typescript
+   * const now = new Date();
+   * const time = SignedTime.fromDate(now);
+   * ```
+   */
+  static fromDate(date: Date): SignedTime {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+      throw new InvalidDateError('date', date);
+    }
+    return new SignedTime(
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+      date.getMilliseconds(),
+    );
+  }
+
+  /**
+   * Creates a SignedTime instance from a time string based on a format string
+   *
+   * Uses the same format patterns as {@link SignedTime.formatMilliseconds}, so
+   * `SignedTime.fromFormat(time.toString(format), format)` restores the time
+   * up to the precision of the format. A leading `-` or `+` sign is accepted.
+   *
+   * @param {string} timeString - Time string to parse
+   * @param {string} [format] - Format string (default: 'hh:mm:ss.SSS'), checked at compile time when literal
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {ParseError} When the time string does not match the format, with the position
+   *   of the first token that does not match
+   * @throws {InvalidFormatError} When a quote or bracket in the format is not terminated or is unmatched
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromFormat('01:30:45.500');
+   * const customTime = SignedTime.fromFormat('1h30m', 'h\\hm\\m');
+   * const withDays = SignedTime.fromFormat('2 02:00', 'd hh:mm'); // 50 hours
+   *
+   * // Optional sections
+   * SignedTime.fromFormat('1:30', 'h:mm[:ss[.SSS]]'); // 1 hour 30 minutes
+   * SignedTime.fromFormat('1:30:15.2', 'h:mm[:ss[.SSS]]'); // 1 hour 30 minutes 15.2 seconds
+   * ```
+   */
+  static fromFormat<F extends string>(timeString: string, format?: FormatString<F>): SignedTime {
+    return SignedTime.compileFormat<string>(format ?? DEFAULT_FORMAT).parse(timeString);
+  }
+
+  /**
+   * Compiles a format string once for repeated formatting and parsing
+   *
+   * {@link SignedTime.fromFormat} and {@link SignedTime#toString} also cache compiled
+   * formats, but a compiled format skips the lookup and keeps the format in one place.
+   * A literal format is checked at compile time (see {@link FormatString}).
+   *
+   * @param {string} format - Format string
+   * @returns {SignedTimeFormat} Compiled format
+   * @throws {InvalidFormatError} When a quote or bracket in the format is not terminated or is unmatched
+   *
+   * @example
+   * ```typescript
+   * const clock = SignedTime.compileFormat('h:mm[:ss]');
+   * const times = rows.map((row) => clock.parse(row.duration));
+   * console.log(clock.format(SignedTime.fromMinutes(90))); // "1:30"
+   *
+   * SignedTime.compileFormat('hh:mn'); // Compile error: Invalid format: 'n' requires 's'
+   * ```
+   */
+  static compileFormat<F extends string>(format: FormatString<F>): SignedTimeFormat {
+    const pattern: string = format;
+    const compiled = compileFormat(pattern);
+
+    const parse = (timeString: string): SignedTime => {
+      const nanoseconds = compiled.parse(timeString);
+      if (nanoseconds === null) {
+        throw new ParseError(
+          `Invalid time string format. Expected format: ${pattern}`,
+          timeString,
+          compiled.mismatchPosition(timeString),
+          pattern,
+        );
+      }
+      return SignedTime.fromNanoseconds(nanoseconds);
+    };
+
+    return {
+      pattern,
+      format: (time) => compiled.format(time.#totalNanoseconds),
+      parse,
+      tryParse: (timeString) => toParseResult(() => parse(timeString)),
+    };
+  }
+
+  /**
+   * Creates a SignedTime instance from an ISO 8601 duration string
+   *
+   * Supports weeks, days, hours, minutes and seconds, including fractional values
+   * (with `.` or `,` as the decimal separator) and a leading sign.
+   * Years and months are rejected because they have no fixed length.
+   * Weeks and days are always treated as exactly 7 days and 24 hours.
+   *
+   * @param {string} isoString - ISO 8601 duration string (e.g. 'PT1H30M45.5S')
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {ParseError} When the string is not a valid ISO 8601 duration or contains years or
+   *   months, with the position of the offending component
+   *
+   * @example
+   * ```typescript
+   * const time = SignedTime.fromISO('PT1H30M45.5S'); // 1 hour 30 minutes 45.5 seconds
+   * const negative = SignedTime.fromISO('-PT15M'); // -15 minutes
+   * const withDays = SignedTime.fromISO('P1DT2H'); // 26 hours
+   * ```
+   */
+  static fromISO(isoString: string): SignedTime {
+    const position = isoString.match(ISO_DURATION_PREFIX_PATTERN)?.[0].length ?? 0;
+
+    if (/^[-+]?P[^T]*[YM]/i.test(isoString)) {
+      throw new ParseError(
+        `Invalid ISO 8601 duration: ${isoString}. Years and months are not supported because they have no fixed length`,
+        isoString,
+        position,
+      );
+    }
+
+    const match = isoString.match(ISO_DURATION_PATTERN);
+
+    // At least one component is required, and 'T' must be followed by a time component
+    if (!match || !match.slice(2).some(Boolean) || /T$/i.test(isoString)) {
+      throw new ParseError(`Invalid ISO 8601 duration: ${isoString}`, isoString, position);
+    }
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const toNumber = (value: string | undefined): number =>
+      value ? parseFloat(value.replace(',', '.')) : 0;
+
+    const time = new SignedTime(
+      (toNumber(weeks) * 7 + toNumber(days)) * 24 + toNumber(hours),
+      toNumber(minutes),
+      toNumber(seconds),
+    );
+    return sign === '-' ? time.negate() : time;
+  }
+
+  /**
+   * Creates a SignedTime instance from a human-readable duration string
+   *
+   * Accepts unit-suffixed components (`1h 30m`, `90min`, `1.5 hours`, `2d4h`, `1時間30分`)
+   * separated by spaces, commas or "and", and colon-separated forms (`1:30`, `1:30:15.5`).
+   * A sign on the first component applies to the whole duration unless other components
+   * have their own sign, so `-1h 30m` is -90 minutes and `1h -15m` is 45 minutes.
+   *
+   * @param {string} input - Duration string to parse
+   * @param {ParseOptions} options - Parse options
+   * @param {Record<string, DurationUnit>} [options.units] - Additional unit aliases
+   * @param {DurationUnit} [options.defaultUnit] - Unit of a single number without a unit
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {ParseError} When the input is not a valid duration, with the offending position
+   *
+   * @example
+   * ```typescript
+   * SignedTime.parse('1h 30m'); // 1 hour 30 minutes
+   * SignedTime.parse('-45s'); // -45 seconds
+   * SignedTime.parse('1.5 hours'); // 1 hour 30 minutes
+   * SignedTime.parse('2 Std', { units: { std: 'hour' } }); // 2 hours
+   * SignedTime.parse('90', { defaultUnit: 'minute' }); // 90 minutes
+   * ```
+   */
+  static parse(input: string, options: ParseOptions = {}): SignedTime {
+    return SignedTime.fromNanoseconds(parseDuration(input, options));
+  }
+
+  /**
+   * Parses a human-readable duration string without throwing
+   *
+   * Same as {@link SignedTime.parse}, but a parse failure is returned as a result.
+   *
+   * @param {string} input - Duration string to parse
+   * @param {ParseOptions} options - Parse options
+   * @returns {ParseResult<SignedTime>} `{ ok: true, value }` with the parsed time, or
+   *   `{ ok: false, error }` with the ParseError
+   *
+   * @example
+   * ```typescript
+   * const result = SignedTime.tryParse('1h 30x');
+   * if (!result.ok) {
+   *   console.log(result.error.position); // 5
+   * }
+   * ```
+   */
+  static tryParse(input: string, options: ParseOptions = {}): ParseResult<SignedTime> {
+    return toParseResult(() => SignedTime.parse(input, options));
+  }
+
+  /**
+   * Parses a time string based on a format string without throwing
+   *
+   * Same as {@link SignedTime.fromFormat}, but a time string that does not match the format
+   * is returned as a failed result, as is a malformed format string (as an InvalidFormatError).
+   *
+   * @param {string} timeString - Time string to parse
+   * @param {string} [format] - Format string (default: 'hh:mm:ss.SSS'), checked at compile time when literal
+   * @returns {ParseResult<SignedTime>} `{ ok: true, value }` with the parsed time, or
+   *   `{ ok: false, error }` with the ParseError
+   *
+   * @example
+   * ```typescript
+   * const result = SignedTime.tryFromFormat('1:3O', 'h:mm');
+   * if (!result.ok) {
+   *   console.log(result.error.position); // 2
+   * }
+   * ```
+   */
+  static tryFromFormat<F extends string>(
+    timeString: string,
+    format?: FormatString<F>,
+  ): ParseResult<SignedTime> {
+    return toParseResult(() => SignedTime.fromFormat<string>(timeString, format ?? DEFAULT_FORMAT));
+  }
+
+  /**
+   * Parses an ISO 8601 duration string without throwing
+   *
+   * Same as {@link SignedTime.fromISO}, but a parse failure is returned as a result.
+   *
+   * @param {string} isoString - ISO 8601 duration string (e.g. 'PT1H30M45.5S')
+   * @returns {ParseResult<SignedTime>} `{ ok: true, value }` with the parsed time, or
+   *   `{ ok: false, error }` with the ParseError
+   *
+   * @example
+   * ```typescript
+   * const result = SignedTime.tryFromISO('P1Y');
+   * console.log(result.ok); // false
+   * ```
+   */
+  static tryFromISO(isoString: string): ParseResult<SignedTime> {
+    return toParseResult(() => SignedTime.fromISO(isoString));
+  }
+
+  /**
+   * Checks if a value is the plain object form of a SignedTime
+   *
+   * @param {unknown} value - Value to check
+   * @returns {boolean} True if the value is a {@link SignedTimePlain}
+   */
+  static isPlain(value: unknown): value is SignedTimePlain {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      (value as Partial<SignedTimePlain>).$type === 'SignedTime' &&
+      typeof (value as Partial<SignedTimePlain>).nanoseconds === 'string' &&
+      /^-?\d+$/.test((value as SignedTimePlain).nanoseconds)
+    );
+  }
+
+  /**
+   * Creates a SignedTime instance from its plain object form
+   *
+   * @param {SignedTimePlain} plain - Plain object created by {@link SignedTime#toPlain}
+   * @returns {SignedTime} New SignedTime instance
+   * @throws {InvalidDurationError} When the object is not a valid plain object form
+   *
+   * @example
+   * ```typescript
+   * // In a worker
+   * self.onmessage = (event) => {
+   *   const time = SignedTime.fromPlain(event.data.elapsed);
+   * };
+   * ```
+   */
+  static fromPlain(plain: SignedTimePlain): SignedTime {
+    if (!SignedTime.isPlain(plain)) {
+      throw new InvalidDurationError('plain', plain);
+    }
+    return SignedTime.fromNanoseconds(BigInt(plain.nanoseconds));
+  }
+
+  /**
+   * Creates a reviver for `JSON.parse` that restores SignedTime instances
+   *
+   * Values in the plain object form are always restored. Other values are restored when they
+   * are in the given format: since a number or clock string cannot be told apart from other
+   * data, limit the properties with `keys` when using the `milliseconds` or `clock` format.
+   *
+   * @param {Object} options - Reviver options
+   * @param {SignedTimeJSONFormat} [options.format] - Format of the serialized times (default: 'iso')
+   * @param {readonly string[]} [options.keys] - Names of the properties to restore (default: all)
+   * @returns {Function} Reviver function
+   *
+   * @example
+   * ```typescript
+   * const json = JSON.stringify({ id: 1, elapsed: time }, SignedTime.replacer('milliseconds'));
+   * const data = JSON.parse(json, SignedTime.createReviver({ format: 'milliseconds', keys: ['elapsed'] }));
+   * ```
+   */
+  static createReviver(
+    options: {
+      /** Format of the serialized times */
+      format?: SignedTimeJSONFormat;
+      /** Names of the properties to restore */
+      keys?: readonly string[];
+    } = {},
+  ): (key: string, value: unknown) => unknown {
+    const format = options.format ?? 'iso';
+    const keys = options.keys && new Set(options.keys);
+
+    return (key: string, value: unknown): unknown => {
+      if (keys && !keys.has(key)) {
+        return value;
+      }
+      if (SignedTime.isPlain(value)) {
+        return SignedTime.fromPlain(value);
+      }
+      if (format === 'milliseconds') {
+        return typeof value === 'number' && Number.isFinite(value)
+          ? SignedTime.fromMilliseconds(value)
+          : value;
+      }
+      if (typeof value !== 'string') {
+        return value;
+      }
+      const result =
+        format === 'iso'
+          ? SignedTime.tryFromISO(value)
+          : SignedTime.tryFromFormat(value, JSON_CLOCK_FORMAT);
+      return result.ok ? result.value : value;
+    };
+  }
+
+  /**
+   * Reviver for `JSON.parse` that restores SignedTime instances serialized with the default
+   * {@link SignedTime#toJSON}
+   *
+   * Restores ISO 8601 duration strings and plain object forms. Note that any string property
+   * that is a valid ISO 8601 duration is restored; use {@link SignedTime.createReviver} to
+   * limit the properties.
+   *
+   * @param {string} key - Property name
+   * @param {unknown} value - Parsed value
+   * @returns {unknown} SignedTime instance, or the value as is
+   *
+   * @example
+   * ```typescript
+   * const json = JSON.stringify({ elapsed: SignedTime.fromMinutes(90) }); // '{"elapsed":"PT1H30M"}'
+   * const { elapsed } = JSON.parse(json, SignedTime.reviver);
+   * console.log(elapsed.toString()); // "01:30:00.000"
+   * ```
+   */
+  static reviver(key: string, value: unknown): unknown {
+    return SignedTime.createReviver()(key, value);
+  }
+
+  /**
+   * Creates a replacer for `JSON.stringify` that serializes SignedTime instances in a format
+   *
+   * @param {SignedTimeJSONFormat} format - Output format (default: 'iso')
+   * @returns {Function} Replacer function
+   *
+   * @example
+   * ```typescript
+   * JSON.stringify({ elapsed: SignedTime.fromMinutes(90) }, SignedTime.replacer('clock'));
+   * // '{"elapsed":"01:30:00.000"}'
+   * ```
+   */
+  static replacer(
+    format: SignedTimeJSONFormat = 'iso',
+  ): (this: unknown, key: string, value: unknown) => unknown {
+    return function (this: unknown, key: string, value: unknown): unknown {
+      // The value has already been converted by toJSON, so the original is read from the holder
+      const original = (this as Record<string, unknown>)[key];
+      return original instanceof SignedTime ? original.toJSON({ format }) : value;
+    };
+  }
+
+  /**
+   * Adds two times together
+   *
+   * @param {SignedTime} other - Time to add
+   * @returns {SignedTime} New SignedTime instance representing the sum
+   *
+   * @example
+   * ```typescript
+   * const time1 = new SignedTime(1, 30, 0);
+   * const time2 = new SignedTime(0, 45, 0);
+   * const sum = time1.add(time2); // 2 hours 15 minutes
+   * ```
+   */
+  add(other: SignedTime): SignedTime {
+    return SignedTime.fromNanoseconds(this.#totalNanoseconds + other.#totalNanoseconds);
+  }
+
+  /**
+   * Subtracts one time from another
+   *
+   * @param {SignedTime} other - Time to subtract
+   * @returns {SignedTime} New SignedTime instance representing the difference
+   */
+  subtract(other: SignedTime): SignedTime {
+    return SignedTime.fromNanoseconds(this.#totalNanoseconds - other.#totalNanoseconds);
+  }
+
+  /**
+   * Multiplies time by a scalar value
+   *
+   * The product is exact for integer multipliers, and rounded to the nearest nanosecond otherwise.
+   *
+   * @param {number} scalar - Multiplier
+   * @returns {SignedTime} New SignedTime instance representing the product
+   * @throws {InvalidDurationError} When the multiplier is not a finite number
+   */
+  multiply(scalar: number): SignedTime {
+    assertFinite(scalar, 'scalar');
+    if (Number.isInteger(scalar)) {
+      return SignedTime.fromNanoseconds(this.#totalNanoseconds * BigInt(scalar));
+    }
+    return SignedTime.fromNanoseconds(Number(this.#totalNanoseconds) * scalar);
+  }
+
+  /**
+   * Divides time by a scalar value
+   *
+   * The quotient is rounded to the nearest nanosecond, with ties away from zero.
+   *
+   * @param {number} scalar - Divisor (non-zero)
+   * @returns {SignedTime} New SignedTime instance representing the quotient
+   * @throws {DivisionByZeroError} When divisor is zero
+   * @throws {InvalidDurationError} When the divisor is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const third = SignedTime.fromSeconds(10).divide(3);
+   * console.log(third.totalNanoseconds); // 3333333333n
+   * ```
+   */
+  divide(scalar: number): SignedTime {
+    if (assertFinite(scalar, 'scalar') === 0) {
+      throw new DivisionByZeroError();
+    }
+    if (Number.isInteger(scalar)) {
+      return SignedTime.fromNanoseconds(
+        divideBigInt(this.#totalNanoseconds, BigInt(scalar), 'halfAwayFromZero'),
+      );
+    }
+    return SignedTime.fromNanoseconds(Number(this.#totalNanoseconds) / scalar);
+  }
+
+  /**
+   * Splits time into equal parts that add up exactly to it
+   *
+   * Unlike {@link divide}, which rounds each quotient, the nanoseconds that cannot be divided
+   * evenly are distributed one each to the first parts, so the parts differ by at most
+   * one nanosecond and their sum equals this time.
+   *
+   * @param {number} parts - Number of parts (a positive integer)
+   * @returns {SignedTime[]} Parts in order, with the same sign as this time
+   * @throws {RangeError} When the number of parts is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * const parts = SignedTime.fromNanoseconds(10n).split(3);
+   * console.log(parts.map((part) => part.totalNanoseconds)); // [4n, 3n, 3n]
+   *
+   * SignedTime.fromHours(1).split(4); // four 15-minute parts
+   * ```
+   */
+  split(parts: number): SignedTime[] {
+    if (!Number.isInteger(parts) || parts <= 0) {
+      throw new RangeError('Number of parts must be a positive integer');
+    }
+    const count = BigInt(parts);
+    const sign = this.#totalNanoseconds < 0n ? -1n : 1n;
+    const absolute = absBigInt(this.#totalNanoseconds);
+    const quotient = absolute / count;
+    const remainder = absolute % count;
+    return Array.from({ length: parts }, (_, index) =>
+      SignedTime.fromNanoseconds(sign * (quotient + (BigInt(index) < remainder ? 1n : 0n))),
+    );
+  }
+
+  /**
+   * Splits time into chunks of a fixed size and the remainder
+   *
+   * For negative time, the chunks and the remainder are negative as well.
+   *
+   * @param {SignedTime} size - Size of each chunk (positive)
+   * @returns {SignedTimeChunks} Full chunks, and the time left over after them
+   * @throws {RangeError} When the size is not positive
+   *
+   * @example
+   * ```typescript
+   * const { chunks, remainder } = SignedTime.fromMinutes(100).chunk(SignedTime.fromMinutes(30));
+   * console.log(chunks.length); // 3
+   * console.log(remainder.toString()); // "00:10:00.000"
+   * ```
+   */
+  chunk(size: SignedTime): SignedTimeChunks {
+    if (size.#totalNanoseconds <= 0n) {
+      throw new RangeError('Chunk size must be positive');
+    }
+    const chunkSize = this.#totalNanoseconds < 0n ? size.negate() : size;
+    const count = Number(absBigInt(this.#totalNanoseconds) / size.#totalNanoseconds);
+    return {
+      chunks: Array.from({ length: count }, () => chunkSize),
+      remainder: SignedTime.fromNanoseconds(this.#totalNanoseconds % size.#totalNanoseconds),
+    };
+  }
+
+  /**
+   * Negates the time value
+   *
+   * @returns {SignedTime} New SignedTime instance with negated value
+   */
+  negate(): SignedTime {
+    return SignedTime.fromNanoseconds(-this.#totalNanoseconds);
+  }
+
+  /**
+   * Gets the absolute value of the time
+   *
+   * @returns {SignedTime} New SignedTime instance with absolute value
+   */
+  abs(): SignedTime {
+    return SignedTime.fromNanoseconds(absBigInt(this.#totalNanoseconds));
+  }
+
+  /**
+   * Compares two times, for use as the comparator of `Array#sort`
+   *
+   * @param {SignedTime} a - First time
+   * @param {SignedTime} b - Second time
+   * @returns {number} Negative if `a` is less than `b`, positive if greater, 0 if equal
+   *
+   * @example
+   * ```typescript
+   * const sorted = times.sort(SignedTime.compare); // ascending
+   * const descending = times.sort((a, b) => SignedTime.compare(b, a));
+   * ```
+   */
+  static compare(a: SignedTime, b: SignedTime): number {
+    return a.compareTo(b);
+  }
+
+  /**
+   * Creates a lazy sequence of times from a start toward an end by a step
+   *
+   * The end is excluded unless `inclusive` is set. A negative step counts down, and a
+   * sequence whose step points away from the end is empty. Times are calculated only
+   * as they are iterated, and the sequence can be iterated any number of times.
+   *
+   * @param {SignedTime} start - First time
+   * @param {SignedTime} end - Time at which the sequence stops
+   * @param {SignedTime} step - Difference between consecutive times (non-zero)
+   * @param {SignedTimeRangeOptions} options - Range options
+   * @param {boolean} [options.inclusive] - Whether to include the end when a step lands exactly on it (default: false)
+   * @returns {Iterable<SignedTime>} Lazy sequence of times
+   * @throws {RangeError} When the step is zero
+   *
+   * @example
+   * ```typescript
+   * // Schedule grid from 09:00 to 18:00 every 15 minutes
+   * for (const slot of SignedTime.range(
+   *   SignedTime.fromHours(9),
+   *   SignedTime.fromHours(18),
+   *   SignedTime.fromMinutes(15),
+   * )) {
+   *   console.log(slot.toString('hh:mm')); // "09:00", "09:15", ..., "17:45"
+   * }
+   *
+   * const countdown = [
+   *   ...SignedTime.range(SignedTime.fromSeconds(3), new SignedTime(), SignedTime.fromSeconds(-1), {
+   *     inclusive: true,
+   *   }),
+   * ]; // 3, 2, 1 and 0 seconds
+   * ```
+   */
+  static range(
+    start: SignedTime,
+    end: SignedTime,
+    step: SignedTime,
+    options: SignedTimeRangeOptions = {},
+  ): Iterable<SignedTime> {
+    if (step.#totalNanoseconds === 0n) {
+      throw new RangeError('Range step must not be zero');
+    }
+    const ascending = step.#totalNanoseconds > 0n;
+    const inclusive = options.inclusive ?? false;
+    const isBeforeEnd = (nanoseconds: bigint): boolean => {
+      if (nanoseconds === end.#totalNanoseconds) return inclusive;
+      return ascending ? nanoseconds < end.#totalNanoseconds : nanoseconds > end.#totalNanoseconds;
+    };
+
+    return {
+      *[Symbol.iterator](): Iterator<SignedTime> {
+        for (
+          let nanoseconds = start.#totalNanoseconds;
+          isBeforeEnd(nanoseconds);
+          nanoseconds += step.#totalNanoseconds
+        ) {
+          yield SignedTime.fromNanoseconds(nanoseconds);
+        }
+      },
+    };
+  }
+
+  /**
+   * Gets the smallest of times
+   *
+   * @param {...SignedTime} times - Times to compare
+   * @returns {SignedTime} Smallest time (the first one when several are equal)
+   * @throws {EmptyCollectionError} When no times are specified
+   *
+   * @example
+   * ```typescript
+   * SignedTime.min(SignedTime.fromHours(1), SignedTime.fromMinutes(30)); // 30 minutes
+   * SignedTime.min(...laps);
+   * ```
+   */
+  static min(...times: SignedTime[]): SignedTime {
+    if (times.length === 0) {
+      throw new EmptyCollectionError('min');
+    }
+    return times.reduce((a, b) => (b.isLessThan(a) ? b : a));
+  }
+
+  /**
+   * Gets the largest of times
+   *
+   * @param {...SignedTime} times - Times to compare
+   * @returns {SignedTime} Largest time (the first one when several are equal)
+   * @throws {EmptyCollectionError} When no times are specified
+   *
+   * @example
+   * ```typescript
+   * SignedTime.max(SignedTime.fromHours(1), SignedTime.fromMinutes(30)); // 1 hour
+   * ```
+   */
+  static max(...times: SignedTime[]): SignedTime {
+    if (times.length === 0) {
+      throw new EmptyCollectionError('max');
+    }
+    return times.reduce((a, b) => (b.isGreaterThan(a) ? b : a));
+  }
+
+  /**
+   * Compares this time with another
+   *
+   * @param {SignedTime} other - Time to compare
+   * @returns {number} -1 if less than the other, 1 if greater, 0 if equal
+   */
+  compareTo(other: SignedTime): -1 | 0 | 1 {
+    if (this.#totalNanoseconds < other.#totalNanoseconds) return -1;
+    if (this.#totalNanoseconds > other.#totalNanoseconds) return 1;
+    return 0;
+  }
+
+  /**
+   * Checks if two times are equal
+   *
+   * @param {SignedTime} other - Time to compare
+   * @param {SignedTime} [epsilon] - Tolerance: times that differ by at most this much are
+   *   considered equal (default: exact comparison)
+   * @returns {boolean} True if equal, false otherwise
+   *
+   * @example
+   * ```typescript
+   * const measured = SignedTime.fromMilliseconds(1002);
+   * measured.equals(SignedTime.fromSeconds(1)); // false
+   * measured.equals(SignedTime.fromSeconds(1), SignedTime.fromMilliseconds(5)); // true
+   * ```
+   */
+  equals(other: SignedTime, epsilon?: SignedTime): boolean {
+    if (!epsilon) {
+      return this.#totalNanoseconds === other.#totalNanoseconds;
+    }
+    return (
+      absBigInt(this.#totalNanoseconds - other.#totalNanoseconds) <=
+      absBigInt(epsilon.#totalNanoseconds)
+    );
+  }
+
+  /**
+   * Checks if this time is greater than another
+   *
+   * @param {SignedTime} other - Time to compare
+   * @returns {boolean} True if greater, false otherwise
+   */
+  isGreaterThan(other: SignedTime): boolean {
+    return this.#totalNanoseconds > other.#totalNanoseconds;
+  }
+
+  /**
+   * Checks if this time is less than another
+   *
+   * @param {SignedTime} other - Time to compare
+   * @returns {boolean} True if less, false otherwise
+   */
+  isLessThan(other: SignedTime): boolean {
+    return this.#totalNanoseconds < other.#totalNanoseconds;
+  }
+
+  /**
+   * Checks if this time is greater than or equal to another
+   *
+   * @param {SignedTime} other - Time to compare
+   * @returns {boolean} True if greater or equal, false otherwise
+   */
+  isGreaterThanOrEqual(other: SignedTime): boolean {
+    return this.#totalNanoseconds >= other.#totalNanoseconds;
+  }
+
+  /**
+   * Checks if this time is less than or equal to another
+   *
+   * @param {SignedTime} other - Time to compare
+   * @returns {boolean} True if less or equal, false otherwise
+   */
+  isLessThanOrEqual(other: SignedTime): boolean {
+    return this.#totalNanoseconds <= other.#totalNanoseconds;
+  }
+
+  /**
+   * Checks if the time is zero
+   *
+   * @returns {boolean} True if zero, false otherwise
+   */
+  isZero(): boolean {
+    return this.#totalNanoseconds === 0n;
+  }
+
+  /**
+   * Checks if the time is negative
+   *
+   * @returns {boolean} True if negative, false otherwise
+   */
+  isNegative(): boolean {
+    return this.#totalNanoseconds < 0n;
+  }
+
+  /**
+   * Checks if the time is positive
+   *
+   * @returns {boolean} True if positive, false otherwise
+   */
+  isPositive(): boolean {
+    return this.#totalNanoseconds > 0n;
+  }
 
   /**
-   * Creates a SignedTime instance
+   * Checks if the time is between two values
    *
-   * @param {number} hours - Hours (default: 0)
-   * @param {number} minutes - Minutes (default: 0)
-   * @param {number} seconds - Seconds (default: 0)
-   * @param {number} milliseconds - Milliseconds (default: 0)
+   * @param {SignedTime} min - Minimum value
+   * @param {SignedTime} max - Maximum value
+   * @param {Object} options - Comparison options
+   * @param {'[]' | '[)' | '(]' | '()'} [options.bounds] - Whether each bound is included,
+   *   in interval notation: `[`/`]` include and `(`/`)` exclude the bound (default: '[]')
+   * @returns {boolean} True if between min and max, false otherwise
    *
    * @example
    * ```typescript
-   * const time = new SignedTime(1, 30, 45, 500);
+   * const time = SignedTime.fromHours(1);
+   * time.isBetween(SignedTime.fromHours(1), SignedTime.fromHours(2)); // true
+   * time.isBetween(SignedTime.fromHours(1), SignedTime.fromHours(2), { bounds: '()' }); // false
+   * time.isBetween(SignedTime.fromHours(0), SignedTime.fromHours(1), { bounds: '[)' }); // false
    * ```
    */
-  constructor(
-    hours: number = 0,
-    minutes: number = 0,
-    seconds: number = 0,
-    milliseconds: number = 0,
-  ) {
-    this.#totalMilliseconds = hours * 3600000 + minutes * 60000 + seconds * 1000 + milliseconds;
+  isBetween(
+    min: SignedTime,
+    max: SignedTime,
+    options: {
+      /** Whether each bound is included, in interval notation */
+      bounds?: '[]' | '[)' | '(]' | '()';
+    } = {},
+  ): boolean {
+    const [lower, upper] = options.bounds ?? '[]';
+    return (
+      (lower === '[' ? this.isGreaterThanOrEqual(min) : this.isGreaterThan(min)) &&
+      (upper === ']' ? this.isLessThanOrEqual(max) : this.isLessThan(max))
+    );
   }
 
   /**
-   * Creates a SignedTime instance from milliseconds
+   * Converts time to string
    *
-   * @param {number} milliseconds - Milliseconds
-   * @returns {SignedTime} New SignedTime instance
+   * @param {string} [format] - Format string (default: 'hh:mm:ss.SSS'), checked at compile time when literal
+   * @returns {string} Formatted time string
    *
    * @example
    * ```typescript
-   * const time = SignedTime.fromMilliseconds(5000); // 5 seconds
+   * const time = new SignedTime(1, 30, 45, 500);
+   * console.log(time.toString()); // "01:30:45.500"
+   * console.log(time.toString('h\\h m\\m s\\s')); // "1h 30m 45s"
+   * console.log(time.toString("h 'hours' m 'minutes'")); // "1 hours 30 minutes"
+   * console.log(time.toString('h:mm[:ss[.S]]')); // "1:30:45.5"
+   *
+   * // Hours stay unbounded unless the format contains a day token
+   * const total = SignedTime.fromHours(50);
+   * console.log(total.toString('hh:mm')); // "50:00"
+   * console.log(total.toString('dd hh:mm')); // "02 02:00"
    * ```
    */
-  static fromMilliseconds(milliseconds: number): SignedTime {
-    return new SignedTime(0, 0, 0, milliseconds);
+  toString<F extends string>(format?: FormatString<F>): string {
+    return compileFormat(format ?? DEFAULT_FORMAT).format(this.#totalNanoseconds);
   }
 
   /**
-   * Creates a SignedTime instance from hours
+   * Converts time to total milliseconds, so that times can be compared with `<` and `>`
    *
-   * @param {number} hours - Hours
-   * @returns {SignedTime} New SignedTime instance
+   * Note that `==` and `===` compare object identity; use {@link SignedTime#equals} instead.
+   *
+   * @returns {number} Total milliseconds
    *
    * @example
    * ```typescript
-   * const time = SignedTime.fromHours(2); // 2 hours
+   * SignedTime.fromMinutes(30) < SignedTime.fromHours(1); // true
+   * SignedTime.fromHours(1) - SignedTime.fromMinutes(30); // 1800000
    * ```
    */
-  static fromHours(hours: number): SignedTime {
-    return new SignedTime(hours, 0, 0, 0);
+  valueOf(): number {
+    return this.totalMilliseconds;
   }
 
   /**
-   * Creates a SignedTime instance from minutes
+   * Converts time to a primitive value
    *
-   * @param {number} minutes - Minutes
-   * @returns {SignedTime} New SignedTime instance
+   * Numeric and default contexts (`<`, `>`, `-`, `+`, `==`) get total milliseconds, so
+   * adding two times sums them rather than concatenating their strings. Only string contexts
+   * (template literals, `String()`) get {@link SignedTime#toString}.
    *
-   * @example
-   * ```typescript
-   * const time = SignedTime.fromMinutes(30); // 30 minutes
-   * ```
+   * @param {string} hint - Preferred type of the primitive ('number', 'string' or 'default')
+   * @returns {number | string} Total milliseconds, or the formatted time for the 'string' hint
    */
-  static fromMinutes(minutes: number): SignedTime {
-    return new SignedTime(0, minutes, 0, 0);
+  [Symbol.toPrimitive](hint: string): number | string {
+    return hint === 'string' ? this.toString() : this.valueOf();
   }
 
   /**
-   * Creates a SignedTime instance from seconds
+   * Formats milliseconds to a string according to the specified format
    *
-   * @param {number} seconds - Seconds
-   * @returns {SignedTime} New SignedTime instance
+   * Format patterns:
+   * - dd: Days with leading zero
+   * - d: Days without leading zero
+   * - hh: Hours with leading zero
+   * - h: Hours without leading zero
+   * - mm: Minutes with leading zero
+   * - m: Minutes without leading zero
+   * - ss: Seconds with leading zero
+   * - s: Seconds without leading zero
+   * - SSS: Fraction of a second in thousandths (milliseconds)
+   * - SS: Fraction of a second in hundredths
+   * - S: Fraction of a second in tenths
+   * - SSSSSS, SSSSSSSSS: Fraction of a second in microseconds or nanoseconds
+   * - uuu / u: Microseconds within the millisecond with / without leading zeros
+   * - nnn / n: Nanoseconds within the microsecond with / without leading zeros
+   *
+   * Longer runs of a pattern character pad to their length (e.g. 'hhh' is "005").
+   * Fractions are truncated to the number of `S` characters (e.g. 'ss.SSSuuunnn' and
+   * 'ss.SSSSSSSSS' are equivalent).
+   * Pattern characters can be output as literal text by escaping them with a backslash
+   * (`\h`), or by enclosing text in single quotes (`'hours'`).
+   *
+   * Text enclosed in square brackets is an optional section, which is output only when
+   * one of its fields is non-zero, and may be omitted when parsing. Sections can be nested
+   * (e.g. 'hh:mm[:ss[.SSS]]' formats 90 minutes as "01:30" and accepts both "01:30" and "01:30:15.2").
+   *
+   * The largest unit in the format is unbounded: when the format contains a day token,
+   * hours roll over into days and stay within 0-23. Otherwise hours are unbounded
+   * (e.g. 50 hours is "50:00" with 'hh:mm'), and likewise 90 minutes is "90:00" with 'mm:ss'.
+   *
+   * @param {number} milliseconds - Milliseconds to format
+   * @param {string} [format] - Format string (default: 'hh:mm:ss.SSS'), checked at compile time when literal
+   * @returns {string} Formatted time string
+   * @throws {InvalidFormatError} When a quote or bracket in the format is not terminated or is unmatched
+   */
+  static formatMilliseconds<F extends string>(
+    milliseconds: number,
+    format?: FormatString<F>,
+  ): string {
+    return SignedTime.fromMilliseconds(milliseconds).toString<string>(format ?? DEFAULT_FORMAT);
+  }
+
+  /**
+   * Converts time to natural language with locale-aware plural rules
+   *
+   * Zero units are omitted, and units smaller than `smallest` are truncated.
+   *
+   * @param {HumanizeOptions} options - Output options
+   * @param {string | LocalePack} [options.locale] - Registered language tag or locale pack (default: 'en')
+   * @param {LocaleUnit} [options.largest] - Largest unit to output (default: 'day')
+   * @param {LocaleUnit} [options.smallest] - Smallest unit to output (default: 'second')
+   * @param {number} [options.maxUnits] - Maximum number of units to output
+   * @param {string} [options.delimiter] - Separator between units
+   * @returns {string} Natural language text
+   * @throws {RangeError} When the largest unit is smaller than the smallest unit
    *
    * @example
    * ```typescript
-   * const time = SignedTime.fromSeconds(45); // 45 seconds
+   * const time = new SignedTime(1, 30, 45);
+   * console.log(time.toHuman()); // "1 hour 30 minutes 45 seconds"
+   * console.log(time.toHuman({ locale: 'ja' })); // "1時間30分45秒"
+   * console.log(time.toHuman({ maxUnits: 2 })); // "1 hour 30 minutes"
+   * console.log(SignedTime.fromHours(50).toHuman({ largest: 'hour' })); // "50 hours"
    * ```
    */
-  static fromSeconds(seconds: number): SignedTime {
-    return new SignedTime(0, 0, seconds, 0);
+  toHuman(options: HumanizeOptions = {}): string {
+    return humanizeMilliseconds(this.totalMilliseconds, options);
   }
 
   /**
-   * Creates a SignedTime instance from the time portion of a Date object
+   * Converts time to a locale-aware string with {@link DurationFormat}
    *
-   * @param {Date} date - Date object
-   * @returns {SignedTime} New SignedTime instance
+   * @param {string | readonly string[]} [locales] - BCP 47 language tag(s) (default: runtime locale)
+   * @param {DurationFormatOptions} options - Options of `Intl.DurationFormat`
+   * @returns {string} Formatted time
+   * @throws {RangeError} When an option is invalid
    *
    * @example
    * ```typescript
-   * const now = new Date();
-   * const time = SignedTime.fromDate(now);
+   * const time = new SignedTime(1, 30);
+   * time.toLocaleString('en', { style: 'long' }); // "1 hour, 30 minutes"
+   * time.toLocaleString('en', { style: 'digital' }); // "1:30:00"
    * ```
    */
-  static fromDate(date: Date): SignedTime {
-    return new SignedTime(
-      date.getHours(),
-      date.getMinutes(),
-      date.getSeconds(),
-      date.getMilliseconds(),
-    );
+  toLocaleString(
+    locales?: string | readonly string[],
+    options: DurationFormatOptions = {},
+  ): string {
+    return new DurationFormat(locales, options).format(this);
   }
 
   /**
-   * Creates a SignedTime instance from a time string based on a format string
+   * Converts time to an ISO 8601 duration string
    *
-   * @param {string} timeString - Time string to parse
-   * @param {string} format - Format string (default: 'hh:mm:ss.SSS')
-   * @returns {SignedTime} New SignedTime instance
-   * @throws {Error} When format is invalid
+   * Negative times are prefixed with `-`, and zero is represented as `PT0S`.
+   *
+   * @param {Object} options - Conversion options
+   * @param {boolean} [options.days] - If true, whole days are output as a `D` component
+   *   instead of being included in the hours (default: true)
+   * @returns {string} ISO 8601 duration string
    *
    * @example
    * ```typescript
-   * const time = SignedTime.fromFormat('01:30:45.500');
-   * const customTime = SignedTime.fromFormat('1h30m', 'h\h m\m');
-   * ```
-   */
-  static fromFormat(timeString: string, format: string = 'hh:mm:ss.SSS'): SignedTime {
-    // Check if the string is negative
-    const isNegative = timeString.startsWith('-');
-    const cleanTimeString = isNegative ? timeString.slice(1) : timeString;
-
-    // Create regex pattern from format
-    const pattern = format
-      .replace(/hh/g, '(\\d{2})')
-      .replace(/h/g, '(\\d{1,2})')
-      .replace(/mm/g, '(\\d{2})')
-      .replace(/m/g, '(\\d{1,2})')
-      .replace(/ss/g, '(\\d{2})')
-      .replace(/s/g, '(\\d{1,2})')
-      .replace(/SSS/g, '(\\d{3})')
-      .replace(/S/g, '(\\d{1,3})')
-      .replace(/[/:.\s]/g, '\\$&');
-
-    const regex = new RegExp(`^${pattern}$`);
-    const match = cleanTimeString.match(regex);
-
-    if (!match) {
-      throw new Error(`Invalid time string format. Expected format: ${format}`);
-    }
-
-    // Extract values using format tokens
-    let hours = 0,
-      minutes = 0,
-      seconds = 0,
-      milliseconds = 0;
-    let matchIndex = 1;
-
-    const formatTokenMatches = format.match(/(hh|h|mm|m|ss|s|SSS|S)/g);
-    const formatTokens: string[] = formatTokenMatches ? formatTokenMatches : [];
-
-    for (const token of formatTokens) {
-      const matchValue = match[matchIndex];
-      if (matchValue === undefined) {
-        throw new Error(`Invalid match index: ${matchIndex} for format: ${format}`);
-      }
-      const value = parseInt(matchValue, 10);
-      matchIndex++;
-
-      switch (token) {
-        case 'hh':
-        case 'h':
-          hours = value;
-          break;
-        case 'mm':
-        case 'm':
-          minutes = value;
-          break;
-        case 'ss':
-        case 's':
-          seconds = value;
-          break;
-        case 'SSS':
-        case 'S':
-          milliseconds = value;
-          break;
-      }
+   * new SignedTime(1, 30, 45, 500).toISO(); // "PT1H30M45.5S"
+   * SignedTime.fromMinutes(-15).toISO(); // "-PT15M"
+   * SignedTime.fromHours(26).toISO(); // "P1DT2H"
+   * SignedTime.fromHours(26).toISO({ days: false }); // "PT26H"
+   * ```
+   */
+  toISO(
+    options: {
+      /** If true, whole days are output as a `D` component */
+      days?: boolean;
+    } = {},
+  ): string {
+    if (this.#totalNanoseconds === 0n) {
+      return 'PT0S';
     }
 
-    // Normalize values
-    if (milliseconds >= 1000) {
-      seconds += Math.floor(milliseconds / 1000);
-      milliseconds %= 1000;
-    }
+    const absNs = absBigInt(this.#totalNanoseconds);
+    const useDays = options.days ?? true;
 
-    if (seconds >= 60) {
-      minutes += Math.floor(seconds / 60);
-      seconds %= 60;
-    }
+    const days = useDays ? absNs / NANOSECONDS.day : 0n;
+    const hours = (useDays ? absNs % NANOSECONDS.day : absNs) / NANOSECONDS.hour;
+    const minutes = (absNs % NANOSECONDS.hour) / NANOSECONDS.minute;
+    const seconds = (absNs % NANOSECONDS.minute) / NANOSECONDS.second;
+    const fractionDigits = (absNs % NANOSECONDS.second).toString().padStart(9, '0');
+    const fraction = fractionDigits === '000000000' ? '' : `.${fractionDigits.replace(/0+$/, '')}`;
 
-    if (minutes >= 60) {
-      hours += Math.floor(minutes / 60);
-      minutes %= 60;
-    }
+    let time = '';
+    if (hours) time += `${hours}H`;
+    if (minutes) time += `${minutes}M`;
+    if (seconds || fraction) time += `${seconds}${fraction}S`;
 
-    const time = new SignedTime(hours, minutes, seconds, milliseconds);
-    return isNegative ? time.negate() : time;
+    const result = `P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+    return this.#totalNanoseconds < 0n ? `-${result}` : result;
   }
 
   /**
-   * Adds two times together
+   * Converts time to a JSON value
    *
-   * @param {SignedTime} other - Time to add
-   * @returns {SignedTime} New SignedTime instance representing the sum
+   * Called by `JSON.stringify`, which outputs an ISO 8601 duration string. Use
+   * {@link SignedTime.replacer} to output another format, and {@link SignedTime.reviver}
+   * to restore instances with `JSON.parse`.
+   *
+   * @param {Object} options - Conversion options (the property name passed by
+   *   `JSON.stringify` is ignored)
+   * @param {SignedTimeJSONFormat} [options.format] - Output format (default: 'iso')
+   * @returns {string | number} ISO 8601 duration string, total milliseconds, or clock string
    *
    * @example
    * ```typescript
-   * const time1 = new SignedTime(1, 30, 0);
-   * const time2 = new SignedTime(0, 45, 0);
-   * const sum = time1.add(time2); // 2 hours 15 minutes
+   * const time = new SignedTime(1, 30);
+   * JSON.stringify({ time }); // '{"time":"PT1H30M"}'
+   * time.toJSON({ format: 'milliseconds' }); // 5400000
+   * time.toJSON({ format: 'clock' }); // "01:30:00.000"
    * ```
    */
-  add(other: SignedTime): SignedTime {
-    return SignedTime.fromMilliseconds(this.#totalMilliseconds + other.#totalMilliseconds);
+  toJSON(
+    options: {
+      /** Output format */
+      format?: SignedTimeJSONFormat;
+    } = {},
+  ): string | number {
+    // JSON.stringify passes the property name, which has no format
+    switch (typeof options === 'object' ? options.format : undefined) {
+      case 'milliseconds':
+        return this.totalMilliseconds;
+      case 'clock':
+        return this.toString(JSON_CLOCK_FORMAT);
+      default:
+        return this.toISO();
+    }
   }
 
   /**
-   * Subtracts one time from another
+   * Gets the total time in a unit
    *
-   * @param {SignedTime} other - Time to subtract
-   * @returns {SignedTime} New SignedTime instance representing the difference
+   * The part that is not a whole number of units is kept as a fraction.
+   *
+   * @param {SignedTimeUnit | SignedTimeField} unit - Unit, singular or plural
+   * @returns {number} Total time in the unit
+   * @throws {RangeError} When the unit is not supported
+   *
+   * @example
+   * ```typescript
+   * const time = new SignedTime(1, 30);
+   * time.total('hour'); // 1.5
+   * time.total('minutes'); // 90
+   * ```
    */
-  subtract(other: SignedTime): SignedTime {
-    return SignedTime.fromMilliseconds(this.#totalMilliseconds - other.#totalMilliseconds);
+  total(unit: SignedTimeUnit | SignedTimeField): number {
+    return toUnitValue(this.#totalNanoseconds, NANOSECONDS[toUnit(unit)]);
   }
 
   /**
-   * Multiplies time by a scalar value
+   * Gets the total time in a unit (alias of {@link total})
    *
-   * @param {number} scalar - Multiplier
-   * @returns {SignedTime} New SignedTime instance representing the product
+   * @param {SignedTimeUnit | SignedTimeField} unit - Unit, singular or plural
+   * @returns {number} Total time in the unit
+   * @throws {RangeError} When the unit is not supported
+   *
+   * @example
+   * ```typescript
+   * SignedTime.fromSeconds(90).as('minutes'); // 1.5
+   * ```
    */
-  multiply(scalar: number): SignedTime {
-    return SignedTime.fromMilliseconds(this.#totalMilliseconds * scalar);
+  as(unit: SignedTimeUnit | SignedTimeField): number {
+    return this.total(unit);
   }
 
   /**
-   * Divides time by a scalar value
+   * Breaks time down into units
    *
-   * @param {number} scalar - Divisor (non-zero)
-   * @returns {SignedTime} New SignedTime instance representing the quotient
-   * @throws {Error} When divisor is zero
+   * The largest of the units is unbounded and absorbs the larger units that are not
+   * specified, and each smaller unit is below the size of the next larger one specified.
+   * The smallest unit keeps the rest as a fraction; round the time first
+   * (see {@link round}) for whole values. All fields have the sign of the time.
+   *
+   * @param {SignedTimeObjectOptions} options - Breakdown options
+   * @param {Array<SignedTimeUnit | SignedTimeField>} [options.units] - Units to break the time down into (default: days to nanoseconds)
+   * @returns {SignedTimeObject} Fields of the units, from largest to smallest
+   * @throws {RangeError} When no units are specified or a unit is not supported
+   *
+   * @example
+   * ```typescript
+   * const time = new SignedTime(1, 35, 30);
+   * time.toObject({ units: ['minutes', 'seconds'] }); // { minutes: 95, seconds: 30 }
+   * time.toObject({ units: ['hour'] }); // { hours: 1.5916666666666666 }
+   * new SignedTime(26).toObject(); // { days: 1, hours: 2, minutes: 0, ... nanoseconds: 0 }
+   * ```
    */
-  divide(scalar: number): SignedTime {
-    if (scalar === 0) {
-      throw new Error('Division by zero is not allowed');
+  toObject(options: SignedTimeObjectOptions = {}): SignedTimeObject {
+    const units = new Set((options.units ?? OBJECT_UNITS).map(toUnit));
+    if (units.size === 0) {
+      throw new RangeError('At least one unit must be specified');
+    }
+
+    const negative = this.#totalNanoseconds < 0n;
+    const object: SignedTimeObject = {};
+    let remaining = absBigInt(this.#totalNanoseconds);
+    const selected = (Object.keys(NANOSECONDS) as SignedTimeUnit[]).filter((unit) =>
+      units.has(unit),
+    );
+    for (const [index, unit] of selected.entries()) {
+      const unitNanoseconds = NANOSECONDS[unit];
+      const value =
+        index === selected.length - 1
+          ? toUnitValue(remaining, unitNanoseconds)
+          : Number(remaining / unitNanoseconds);
+      remaining %= unitNanoseconds;
+      object[`${unit}s`] = negative && value !== 0 ? -value : value;
     }
-    return SignedTime.fromMilliseconds(this.#totalMilliseconds / scalar);
+    return object;
   }
 
   /**
-   * Negates the time value
+   * Converts time to its plain object form
    *
-   * @returns {SignedTime} New SignedTime instance with negated value
+   * Unlike class instances, the plain object survives `structuredClone`, `postMessage`
+   * and JSON without losing precision. Restore it with {@link SignedTime.fromPlain}.
+   *
+   * @returns {SignedTimePlain} Plain object
+   *
+   * @example
+   * ```typescript
+   * worker.postMessage({ elapsed: time.toPlain() });
+   * ```
    */
-  negate(): SignedTime {
-    return SignedTime.fromMilliseconds(-this.#totalMilliseconds);
+  toPlain(): SignedTimePlain {
+    return { $type: 'SignedTime', nanoseconds: this.#totalNanoseconds.toString() };
   }
 
   /**
-   * Gets the absolute value of the time
+   * Rounds time to a multiple of an increment
    *
-   * @returns {SignedTime} New SignedTime instance with absolute value
+   * @param {SignedTime} increment - Rounding increment (e.g. 15 minutes, or 6 minutes for tenths of an hour)
+   * @param {RoundingMode} mode - Rounding mode (default: 'halfAwayFromZero')
+   * @returns {SignedTime} New SignedTime instance rounded to the increment
+   * @throws {RangeError} When the increment is zero
+   *
+   * @example
+   * ```typescript
+   * const time = new SignedTime(1, 7, 30);
+   * time.round(SignedTime.fromMinutes(15)); // 1 hour 15 minutes
+   * time.round(SignedTime.fromMinutes(15), 'floor'); // 1 hour
+   * time.round(SignedTime.fromMinutes(6), 'ceil'); // 1 hour 12 minutes
+   * SignedTime.fromSeconds(-0.5).round(SignedTime.fromSeconds(1)); // -1 second
+   * ```
    */
-  abs(): SignedTime {
-    return SignedTime.fromMilliseconds(Math.abs(this.#totalMilliseconds));
+  round(increment: SignedTime, mode: RoundingMode = 'halfAwayFromZero'): SignedTime {
+    return SignedTime.fromNanoseconds(
+      roundBigIntToIncrement(this.#totalNanoseconds, absBigInt(increment.#totalNanoseconds), mode),
+    );
   }
 
   /**
-   * Checks if two times are equal
+   * Rounds time to a whole second
    *
-   * @param {SignedTime} other - Time to compare
-   * @returns {boolean} True if equal, false otherwise
+   * @param {RoundingMode} mode - Rounding mode (default: 'halfAwayFromZero')
+   * @returns {SignedTime} New SignedTime instance rounded to seconds
    */
-  equals(other: SignedTime): boolean {
-    return this.#totalMilliseconds === other.#totalMilliseconds;
+  roundToSecond(mode: RoundingMode = 'halfAwayFromZero'): SignedTime {
+    return this.round(SignedTime.fromSeconds(1), mode);
   }
 
   /**
-   * Checks if this time is greater than another
+   * Rounds time to a whole minute
    *
-   * @param {SignedTime} other - Time to compare
-   * @returns {boolean} True if greater, false otherwise
+   * @param {RoundingMode} mode - Rounding mode (default: 'halfAwayFromZero')
+   * @returns {SignedTime} New SignedTime instance rounded to minutes
    */
-  isGreaterThan(other: SignedTime): boolean {
-    return this.#totalMilliseconds > other.#totalMilliseconds;
+  roundToMinute(mode: RoundingMode = 'halfAwayFromZero'): SignedTime {
+    return this.round(SignedTime.fromMinutes(1), mode);
   }
 
   /**
-   * Checks if this time is less than another
+   * Rounds time to a whole hour
    *
-   * @param {SignedTime} other - Time to compare
-   * @returns {boolean} True if less, false otherwise
+   * @param {RoundingMode} mode - Rounding mode (default: 'halfAwayFromZero')
+   * @returns {SignedTime} New SignedTime instance rounded to hours
    */
-  isLessThan(other: SignedTime): boolean {
-    return this.#totalMilliseconds < other.#totalMilliseconds;
+  roundToHour(mode: RoundingMode = 'halfAwayFromZero'): SignedTime {
+    return this.round(SignedTime.fromHours(1), mode);
   }
 
   /**
-   * Checks if the time is zero
+   * Clamps time between minimum and maximum values
    *
-   * @returns {boolean} True if zero, false otherwise
+   * @param {SignedTime} min - Minimum value
+   * @param {SignedTime} max - Maximum value
+   * @returns {SignedTime} New SignedTime instance clamped between min and max
    */
-  isZero(): boolean {
-    return this.#totalMilliseconds === 0;
+  clamp(min: SignedTime, max: SignedTime): SignedTime {
+    if (this.isLessThan(min)) return min;
+    if (this.isGreaterThan(max)) return max;
+    return this;
   }
 
   /**
-   * Checks if the time is negative
+   * Gets the total days
    *
-   * @returns {boolean} True if negative, false otherwise
+   * A day is always treated as exactly 24 hours.
+   *
+   * @returns {number} Total days, with the rest as a fraction
    */
-  isNegative(): boolean {
-    return this.#totalMilliseconds < 0;
+  get totalDays(): number {
+    return this.total('day');
   }
 
   /**
-   * Checks if the time is positive
+   * Gets the total hours
    *
-   * @returns {boolean} True if positive, false otherwise
+   * @returns {number} Total hours, with the rest as a fraction (e.g. 1.5 for 1 hour 30 minutes)
    */
-  isPositive(): boolean {
-    return this.#totalMilliseconds > 0;
+  get totalHours(): number {
+    return this.total('hour');
   }
 
   /**
-   * Checks if the time is between two values
+   * Gets the total minutes
    *
-   * @param {SignedTime} min - Minimum value
-   * @param {SignedTime} max - Maximum value
-   * @returns {boolean} True if between min and max, false otherwise
+   * @returns {number} Total minutes, with the rest as a fraction
    */
-  isBetween(min: SignedTime, max: SignedTime): boolean {
-    return !this.isLessThan(min) && !this.isGreaterThan(max);
+  get totalMinutes(): number {
+    return this.total('minute');
   }
 
   /**
-   * Converts time to string
-   *
-   * @param {string} format - Format string (default: 'hh:mm:ss.SSS')
-   * @returns {string} Formatted time string
+   * Gets the total seconds
    *
-   * @example
-   * ```typescript
-   * const time = new SignedTime(1, 30, 45, 500);
-   * console.log(time.toString()); // "01:30:45.500"
-   * console.log(time.toString('h\h m\m s\s')); // "1h 30m 45s"
-   * ```
+   * @returns {number} Total seconds, with the rest as a fraction
    */
-  toString(format: string = 'hh:mm:ss.SSS'): string {
-    return SignedTime.formatMilliseconds(this.#totalMilliseconds, format);
+  get totalSeconds(): number {
+    return this.total('second');
   }
 
   /**
-   * Formats milliseconds to a string according to the specified format
+   * Gets the total milliseconds
    *
-   * Format patterns:
-   * - hh: Hours with leading zero
-   * - h: Hours without leading zero
-   * - mm: Minutes with leading zero
-   * - m: Minutes without leading zero
-   * - ss: Seconds with leading zero
-   * - s: Seconds without leading zero
-   * - SSS: Milliseconds with leading zeros
-   * - S: Milliseconds without leading zeros
+   * Sub-millisecond precision is kept as a fraction.
    *
-   * @param {number} milliseconds - Milliseconds to format
-   * @param {string} format - Format string (default: 'hh:mm:ss.SSS')
-   * @returns {string} Formatted time string
+   * @returns {number} Total milliseconds
    */
-  static formatMilliseconds(milliseconds: number, format: string = 'hh:mm:ss.SSS'): string {
-    const isNegative = milliseconds < 0;
-    const absMs = Math.abs(milliseconds);
-
-    const hours = Math.floor(absMs / 3600000);
-    const minutes = Math.floor((absMs % 3600000) / 60000);
-    const seconds = Math.floor((absMs % 60000) / 1000);
-    const ms = absMs % 1000;
-
-    const result = format
-      .replace('hh', hours.toString().padStart(2, '0'))
-      .replace('h', hours.toString())
-      .replace('mm', minutes.toString().padStart(2, '0'))
-      .replace('m', minutes.toString())
-      .replace('ss', seconds.toString().padStart(2, '0'))
-      .replace('s', seconds.toString())
-      .replace('SSS', ms.toString().padStart(3, '0'))
-      .replace('S', ms.toString());
-
-    return isNegative ? `-${result}` : result;
+  get totalMilliseconds(): number {
+    return Number(this.#totalNanoseconds) / 1e6;
   }
 
   /**
-   * Rounds time to the nearest second
+   * Gets the total microseconds
    *
-   * @returns {SignedTime} New SignedTime instance rounded to seconds
-   */
-  roundToSecond(): SignedTime {
-    const rounded = Math.round(this.#totalMilliseconds / 1000) * 1000;
-    return SignedTime.fromMilliseconds(rounded);
-  }
-
-  /**
-   * Rounds time to the nearest minute
+   * Sub-microsecond precision is kept as a fraction.
    *
-   * @returns {SignedTime} New SignedTime instance rounded to minutes
+   * @returns {number} Total microseconds
    */
-  roundToMinute(): SignedTime {
-    const rounded = Math.round(this.#totalMilliseconds / 60000) * 60000;
-    return SignedTime.fromMilliseconds(rounded);
+  get totalMicroseconds(): number {
+    return Number(this.#totalNanoseconds) / 1e3;
   }
 
   /**
-   * Rounds time to the nearest hour
+   * Gets the total nanoseconds
    *
-   * @returns {SignedTime} New SignedTime instance rounded to hours
+   * @returns {bigint} Total nanoseconds
    */
-  roundToHour(): SignedTime {
-    const rounded = Math.round(this.#totalMilliseconds / 3600000) * 3600000;
-    return SignedTime.fromMilliseconds(rounded);
+  get totalNanoseconds(): bigint {
+    return this.#totalNanoseconds;
   }
 
   /**
-   * Clamps time between minimum and maximum values
+   * Gets a component of the time in a unit, below the next larger unit
    *
-   * @param {SignedTime} min - Minimum value
-   * @param {SignedTime} max - Maximum value
-   * @returns {SignedTime} New SignedTime instance clamped between min and max
+   * @param {bigint} unitNanoseconds - Length of the unit in nanoseconds
+   * @param {bigint} [modulus] - Length of the next larger unit in nanoseconds (default: unbounded)
+   * @returns {number} Component with the sign of the time
    */
-  clamp(min: SignedTime, max: SignedTime): SignedTime {
-    if (this.isLessThan(min)) return min;
-    if (this.isGreaterThan(max)) return max;
-    return this;
+  #component(unitNanoseconds: bigint, modulus?: bigint): number {
+    const absolute = absBigInt(this.#totalNanoseconds);
+    const value = Number((modulus ? absolute % modulus : absolute) / unitNanoseconds);
+    return this.#totalNanoseconds < 0n ? -value : value;
   }
 
   /**
-   * Gets the total milliseconds
+   * Gets the days component
    *
-   * @returns {number} Total milliseconds
+   * A day is always treated as exactly 24 hours.
+   * Note that the `hours` component is not reduced by whole days.
+   *
+   * @returns {number} Days
    */
-  get totalMilliseconds(): number {
-    return this.#totalMilliseconds;
+  get days(): number {
+    return this.#component(NANOSECONDS.day);
   }
 
   /**
@@ -473,9 +1740,7 @@ export class SignedTime {
    * @returns {number} Hours
    */
   get hours(): number {
-    return (
-      Math.floor(Math.abs(this.#totalMilliseconds) / 3600000) * Math.sign(this.#totalMilliseconds)
-    );
+    return this.#component(NANOSECONDS.hour);
   }
 
   /**
@@ -484,10 +1749,7 @@ export class SignedTime {
    * @returns {number} Minutes
    */
   get minutes(): number {
-    return (
-      Math.floor((Math.abs(this.#totalMilliseconds) % 3600000) / 60000) *
-      Math.sign(this.#totalMilliseconds)
-    );
+    return this.#component(NANOSECONDS.minute, NANOSECONDS.hour);
   }
 
   /**
@@ -496,10 +1758,7 @@ export class SignedTime {
    * @returns {number} Seconds
    */
   get seconds(): number {
-    return (
-      Math.floor((Math.abs(this.#totalMilliseconds) % 60000) / 1000) *
-      Math.sign(this.#totalMilliseconds)
-    );
+    return this.#component(NANOSECONDS.second, NANOSECONDS.minute);
   }
 
   /**
@@ -508,6 +1767,24 @@ export class SignedTime {
    * @returns {number} Milliseconds
    */
   get milliseconds(): number {
-    return (Math.abs(this.#totalMilliseconds) % 1000) * Math.sign(this.#totalMilliseconds);
+    return this.#component(NANOSECONDS.millisecond, NANOSECONDS.second);
+  }
+
+  /**
+   * Gets the microseconds component
+   *
+   * @returns {number} Microseconds (0-999, with the sign of the time)
+   */
+  get microseconds(): number {
+    return this.#component(NANOSECONDS.microsecond, NANOSECONDS.millisecond);
+  }
+
+  /**
+   * Gets the nanoseconds component
+   *
+   * @returns {number} Nanoseconds (0-999, with the sign of the time)
+   */
+  get nanoseconds(): number {
+    return this.#component(1n, NANOSECONDS.microsecond);
   }
 }
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { SignedTime } from './SignedTime';
+import { TimeInterval } from './TimeInterval';
+
+const at = (time: string): string => `2024-01-01T${time}:00`;
+const interval = (start: string, end: string): TimeInterval => new TimeInterval(at(start), at(end));
+const describeIntervals = (intervals: TimeInterval[]): string[] =>
+  intervals.map((i) => `${i.start.toTimeString().slice(0, 5)}-${i.end.toTimeString().slice(0, 5)}`);
+
+describe('TimeInterval', () => {
+  describe('constructor', () => {
+    it('should create an interval from DateLike endpoints', () => {
+      const meeting = new TimeInterval(new Date(at('10:00')), at('11:30'));
+      expect(meeting.start.getTime()).toBe(new Date(at('10:00')).getTime());
+      expect(meeting.end.getTime()).toBe(new Date(at('11:30')).getTime());
+    });
+
+    it('should throw error when the end is before the start', () => {
+      expect(() => interval('11:00', '10:00')).toThrow('Interval end must not be before start');
+      expect(() => interval('11:00', '10:00')).toThrow(RangeError);
+    });
+
+    it('should throw error for invalid dates', () => {
+      expect(() => new TimeInterval('invalid', at('10:00'))).toThrow('Invalid Date');
+    });
+
+    it('should create an interval from a start and a length', () => {
+      const meeting = TimeInterval.fromDuration(at('10:00'), SignedTime.fromMinutes(90));
+      expect(meeting.equals(interval('10:00', '11:30'))).toBe(true);
+      expect(() => TimeInterval.fromDuration(at('10:00'), SignedTime.fromMinutes(-1))).toThrow(
+        'Interval end must not be before start',
+      );
+    });
+  });
+
+  describe('length', () => {
+    it('should return the length as SignedTime', () => {
+      expect(interval('09:00', '17:30').length().toString()).toBe('08:30:00.000');
+      expect(interval('09:00', '09:00').length().isZero()).toBe(true);
+    });
+
+    it('should pass options to duration', () => {
+      const night = new TimeInterval('2024-03-10T06:00:00Z', '2024-03-10T09:00:00Z');
+      expect(night.length({ timeZone: 'America/New_York', clock: 'wall' }).toString()).toBe(
+        '04:00:00.000',
+      );
+    });
+  });
+
+  describe('contains', () => {
+    it('should include the start and exclude the end for instants', () => {
+      const shift = interval('09:00', '17:00');
+      expect(shift.contains(at('09:00'))).toBe(true);
+      expect(shift.contains(at('12:00'))).toBe(true);
+      expect(shift.contains(at('17:00'))).toBe(false);
+      expect(shift.contains(at('08:59'))).toBe(false);
+    });
+
+    it('should check containment of intervals', () => {
+      const shift = interval('09:00', '17:00');
+      expect(shift.contains(interval('09:00', '17:00'))).toBe(true);
+      expect(shift.contains(interval('12:00', '13:00'))).toBe(true);
+      expect(shift.contains(interval('16:00', '18:00'))).toBe(false);
+    });
+  });
+
+  describe('overlaps and intersection', () => {
+    it('should detect overlapping intervals', () => {
+      expect(interval('09:00', '12:00').overlaps(interval('11:00', '13:00'))).toBe(true);
+      expect(interval('09:00', '12:00').overlaps(interval('12:00', '13:00'))).toBe(false);
+    });
+
+    it('should return the shared interval', () => {
+      const shared = interval('09:00', '12:00').intersection(interval('11:00', '13:00'));
+      expect(shared?.equals(interval('11:00', '12:00'))).toBe(true);
+      expect(interval('09:00', '12:00').intersection(interval('12:00', '13:00'))).toBeNull();
+    });
+  });
+
+  describe('union', () => {
+    it('should combine overlapping and touching intervals', () => {
+      expect(
+        interval('09:00', '12:00')
+          .union(interval('11:00', '13:00'))
+          ?.equals(interval('09:00', '13:00')),
+      ).toBe(true);
+      expect(
+        interval('09:00', '12:00')
+          .union(interval('12:00', '13:00'))
+          ?.equals(interval('09:00', '13:00')),
+      ).toBe(true);
+    });
+
+    it('should return null for separate intervals', () => {
+      expect(interval('09:00', '10:00').union(interval('11:00', '12:00'))).toBeNull();
+    });
+  });
+
+  describe('subtract', () => {
+    it('should return the remaining free time', () => {
+      const free = interval('09:00', '18:00').subtract(
+        interval('14:00', '15:30'),
+        interval('10:00', '11:00'),
+        interval('10:30', '11:30'),
+      );
+      expect(describeIntervals(free)).toEqual(['09:00-10:00', '11:30-14:00', '15:30-18:00']);
+    });
+
+    it('should ignore intervals outside and return nothing when fully covered', () => {
+      expect(
+        describeIntervals(interval('09:00', '12:00').subtract(interval('13:00', '14:00'))),
+      ).toEqual(['09:00-12:00']);
+      expect(interval('09:00', '12:00').subtract(interval('08:00', '13:00'))).toEqual([]);
+    });
+  });
+
+  describe('merge and gaps', () => {
+    const intervals = [
+      interval('13:00', '14:00'),
+      interval('09:00', '10:00'),
+      interval('09:30', '11:00'),
+      interval('11:00', '11:30'),
+      interval('15:00', '15:00'),
+    ];
+
+    it('should merge overlapping and touching intervals', () => {
+      expect(describeIntervals(TimeInterval.merge(intervals))).toEqual([
+        '09:00-11:30',
+        '13:00-14:00',
+      ]);
+      expect(TimeInterval.merge([])).toEqual([]);
+    });
+
+    it('should find the gaps between intervals', () => {
+      expect(describeIntervals(TimeInterval.gaps(intervals))).toEqual(['11:30-13:00']);
+      expect(TimeInterval.gaps([interval('09:00', '10:00')])).toEqual([]);
+    });
+  });
+
+  describe('toString', () => {
+    it('should output an ISO 8601 interval', () => {
+      const meeting = new TimeInterval('2024-01-01T10:00:00Z', '2024-01-01T11:00:00Z');
+      expect(meeting.toString()).toBe('2024-01-01T10:00:00.000Z/2024-01-01T11:00:00.000Z');
+    });
+  });
+});
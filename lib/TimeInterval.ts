@@ -0,0 +1,288 @@
+import { duration, parseDateLike } from './duration';
+import type { DateLike, DurationOptions } from './duration';
+import type { SignedTime } from './SignedTime';
+
+/**
+ * Class representing a span of time between two instants
+ *
+ * Intervals are half-open: they include their start and exclude their end, so
+ * back-to-back intervals such as 09:00–12:00 and 12:00–13:00 touch without overlapping.
+ * An interval whose start equals its end is empty.
+ *
+ * @example
+ * ```typescript
+ * const shift = new TimeInterval('2024-01-01T09:00:00', '2024-01-01T18:00:00');
+ * const lunch = new TimeInterval('2024-01-01T12:00:00', '2024-01-01T13:00:00');
+ *
+ * console.log(shift.length().toString()); // "09:00:00.000"
+ * console.log(shift.contains(lunch)); // true
+ *
+ * const [morning, afternoon] = shift.subtract(lunch);
+ * ```
+ */
+export class TimeInterval {
+  /** Start instant (milliseconds since the epoch, inclusive) */
+  #start: number;
+
+  /** End instant (milliseconds since the epoch, exclusive) */
+  #end: number;
+
+  /**
+   * Creates a TimeInterval instance
+   *
+   * @param {DateLike} start - Start date/time (inclusive)
+   * @param {DateLike} end - End date/time (exclusive)
+   * @throws {InvalidDateError} When invalid dates are specified
+   * @throws {RangeError} When the end is before the start
+   *
+   * @example
+   * ```typescript
+   * const meeting = new TimeInterval('2024-01-01T10:00:00', '2024-01-01T11:30:00');
+   * ```
+   */
+  constructor(start: DateLike, end: DateLike) {
+    this.#start = parseDateLike(start, undefined, 'start').getTime();
+    this.#end = parseDateLike(end, undefined, 'end').getTime();
+
+    if (this.#end < this.#start) {
+      throw new RangeError('Interval end must not be before start');
+    }
+  }
+
+  /**
+   * Creates a TimeInterval instance from a start and a length
+   *
+   * @param {DateLike} start - Start date/time (inclusive)
+   * @param {SignedTime} length - Non-negative length of the interval
+   * @returns {TimeInterval} New TimeInterval instance
+   * @throws {InvalidDateError} When the start is not a valid date
+   * @throws {RangeError} When the length is negative
+   *
+   * @example
+   * ```typescript
+   * const meeting = TimeInterval.fromDuration('2024-01-01T10:00:00', SignedTime.fromMinutes(90));
+   * ```
+   */
+  static fromDuration(start: DateLike, length: SignedTime): TimeInterval {
+    const startTime = parseDateLike(start, undefined, 'start').getTime();
+    return new TimeInterval(startTime, startTime + length.totalMilliseconds);
+  }
+
+  /**
+   * Merges overlapping and touching intervals
+   *
+   * @param {Iterable<TimeInterval>} intervals - Intervals to merge
+   * @returns {TimeInterval[]} Non-empty, non-overlapping intervals sorted by start
+   *
+   * @example
+   * ```typescript
+   * const busy = TimeInterval.merge([
+   *   new TimeInterval('2024-01-01T09:00:00', '2024-01-01T10:00:00'),
+   *   new TimeInterval('2024-01-01T09:30:00', '2024-01-01T11:00:00'),
+   *   new TimeInterval('2024-01-01T13:00:00', '2024-01-01T14:00:00'),
+   * ]); // 09:00–11:00 and 13:00–14:00
+   * ```
+   */
+  static merge(intervals: Iterable<TimeInterval>): TimeInterval[] {
+    const sorted = Array.from(intervals)
+      .filter((interval) => !interval.isEmpty())
+      .sort((a, b) => a.#start - b.#start);
+
+    const merged: TimeInterval[] = [];
+    for (const interval of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && interval.#start <= last.#end) {
+        merged[merged.length - 1] = new TimeInterval(
+          last.#start,
+          Math.max(last.#end, interval.#end),
+        );
+      } else {
+        merged.push(interval);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Finds the gaps between intervals
+   *
+   * The intervals are merged first, so only time covered by none of them is returned.
+   *
+   * @param {Iterable<TimeInterval>} intervals - Intervals to evaluate
+   * @returns {TimeInterval[]} Gaps sorted by start
+   *
+   * @example
+   * ```typescript
+   * const gaps = TimeInterval.gaps([
+   *   new TimeInterval('2024-01-01T09:00:00', '2024-01-01T10:00:00'),
+   *   new TimeInterval('2024-01-01T11:00:00', '2024-01-01T12:00:00'),
+   * ]); // 10:00–11:00
+   * ```
+   */
+  static gaps(intervals: Iterable<TimeInterval>): TimeInterval[] {
+    const merged = TimeInterval.merge(intervals);
+    return merged
+      .slice(1)
+      .map(
+        (interval, index) =>
+          new TimeInterval((merged[index] as TimeInterval).#end, interval.#start),
+      );
+  }
+
+  /**
+   * Calculates the length of this interval
+   *
+   * The length is calculated with {@link duration}, so its options can be used to
+   * e.g. measure the wall-clock length in a time zone.
+   *
+   * @param {DurationOptions} options - Options passed to {@link duration}
+   * @returns {SignedTime} Length of the interval
+   *
+   * @example
+   * ```typescript
+   * const shift = new TimeInterval('2024-01-01T22:00:00', '2024-01-02T06:00:00');
+   * console.log(shift.length().toString()); // "08:00:00.000"
+   * ```
+   */
+  length(options: DurationOptions = {}): SignedTime {
+    return duration(this.#start, this.#end, options);
+  }
+
+  /**
+   * Checks if this interval is empty (its start equals its end)
+   *
+   * @returns {boolean} True if empty
+   */
+  isEmpty(): boolean {
+    return this.#start === this.#end;
+  }
+
+  /**
+   * Checks if this interval contains an instant or another interval
+   *
+   * An instant is contained when it is at or after the start and before the end.
+   * An interval is contained when it lies entirely within this interval.
+   *
+   * @param {DateLike | TimeInterval} value - Instant or interval to check
+   * @returns {boolean} True if contained
+   * @throws {InvalidDateError} When an invalid date is specified
+   */
+  contains(value: DateLike | TimeInterval): boolean {
+    if (value instanceof TimeInterval) {
+      return value.#start >= this.#start && value.#end <= this.#end;
+    }
+    const time = parseDateLike(value, undefined, 'value').getTime();
+    return time >= this.#start && time < this.#end;
+  }
+
+  /**
+   * Checks if this interval shares any time with another interval
+   *
+   * Touching intervals (one ends where the other starts) do not overlap.
+   *
+   * @param {TimeInterval} other - Interval to compare with
+   * @returns {boolean} True if overlapping
+   */
+  overlaps(other: TimeInterval): boolean {
+    return this.#start < other.#end && other.#start < this.#end;
+  }
+
+  /**
+   * Gets the time shared by this interval and another interval
+   *
+   * @param {TimeInterval} other - Interval to intersect with
+   * @returns {TimeInterval | null} Shared interval, or null when the intervals do not overlap
+   */
+  intersection(other: TimeInterval): TimeInterval | null {
+    if (!this.overlaps(other)) {
+      return null;
+    }
+    return new TimeInterval(Math.max(this.#start, other.#start), Math.min(this.#end, other.#end));
+  }
+
+  /**
+   * Combines this interval with another interval
+   *
+   * @param {TimeInterval} other - Interval to combine with
+   * @returns {TimeInterval | null} Combined interval, or null when the intervals neither
+   *   overlap nor touch (the result would not be continuous)
+   */
+  union(other: TimeInterval): TimeInterval | null {
+    if (this.#start > other.#end || other.#start > this.#end) {
+      return null;
+    }
+    return new TimeInterval(Math.min(this.#start, other.#start), Math.max(this.#end, other.#end));
+  }
+
+  /**
+   * Removes other intervals from this interval
+   *
+   * @param {...TimeInterval} others - Intervals to remove
+   * @returns {TimeInterval[]} Remaining non-empty intervals sorted by start
+   *
+   * @example
+   * ```typescript
+   * const day = new TimeInterval('2024-01-01T09:00:00', '2024-01-01T18:00:00');
+   * const free = day.subtract(
+   *   new TimeInterval('2024-01-01T10:00:00', '2024-01-01T11:00:00'),
+   *   new TimeInterval('2024-01-01T14:00:00', '2024-01-01T15:30:00'),
+   * ); // 09:00–10:00, 11:00–14:00 and 15:30–18:00
+   * ```
+   */
+  subtract(...others: TimeInterval[]): TimeInterval[] {
+    const remaining: TimeInterval[] = [];
+    let cursor = this.#start;
+
+    for (const other of TimeInterval.merge(others)) {
+      if (other.#end <= cursor || other.#start >= this.#end) {
+        continue;
+      }
+      if (other.#start > cursor) {
+        remaining.push(new TimeInterval(cursor, other.#start));
+      }
+      cursor = Math.max(cursor, other.#end);
+    }
+
+    if (cursor < this.#end) {
+      remaining.push(new TimeInterval(cursor, this.#end));
+    }
+    return remaining;
+  }
+
+  /**
+   * Checks equality with another interval
+   *
+   * @param {TimeInterval} other - Interval to compare with
+   * @returns {boolean} True if both the start and the end are equal
+   */
+  equals(other: TimeInterval): boolean {
+    return this.#start === other.#start && this.#end === other.#end;
+  }
+
+  /**
+   * Converts to an ISO 8601 interval string
+   *
+   * @returns {string} String in `start/end` format (e.g. "2024-01-01T09:00:00.000Z/2024-01-01T18:00:00.000Z")
+   */
+  toString(): string {
+    return `${this.start.toISOString()}/${this.end.toISOString()}`;
+  }
+
+  /**
+   * Gets the start instant
+   *
+   * @returns {Date} Start date/time (inclusive)
+   */
+  get start(): Date {
+    return new Date(this.#start);
+  }
+
+  /**
+   * Gets the end instant
+   *
+   * @returns {Date} End date/time (exclusive)
+   */
+  get end(): Date {
+    return new Date(this.#end);
+  }
+}
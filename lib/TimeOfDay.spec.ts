@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { InvalidDateError, InvalidDurationError, InvalidFormatError, ParseError } from './errors';
+import { SignedTime } from './SignedTime';
+import { TimeOfDay } from './TimeOfDay';
+
+describe('TimeOfDay', () => {
+  describe('constructor', () => {
+    it('should create a time of day', () => {
+      const time = new TimeOfDay(9, 30, 15, 250);
+      expect([time.hours, time.minutes, time.seconds, time.milliseconds]).toEqual([9, 30, 15, 250]);
+      expect(new TimeOfDay().toString()).toBe('00:00');
+    });
+
+    it('should wrap values out of range', () => {
+      expect(new TimeOfDay(25).toString()).toBe('01:00');
+      expect(new TimeOfDay(24).toString()).toBe('00:00');
+      expect(new TimeOfDay(0, -30).toString()).toBe('23:30');
+      expect(new TimeOfDay(-49).toString()).toBe('23:00');
+    });
+
+    it('should reject non-finite values', () => {
+      expect(() => new TimeOfDay(NaN)).toThrow(InvalidDurationError);
+    });
+  });
+
+  describe('fromSignedTime / toSignedTime', () => {
+    it('should convert from and to the time since midnight', () => {
+      expect(TimeOfDay.fromSignedTime(new SignedTime(26, 15)).toString()).toBe('02:15');
+      expect(TimeOfDay.fromSignedTime(SignedTime.fromMinutes(-90)).toString()).toBe('22:30');
+      expect(new TimeOfDay(9, 30).toSignedTime().equals(new SignedTime(9, 30))).toBe(true);
+    });
+
+    it('should keep sub-millisecond precision', () => {
+      const offset = SignedTime.fromNanoseconds(3600000000001n);
+      expect(TimeOfDay.fromSignedTime(offset).toSignedTime().totalNanoseconds).toBe(3600000000001n);
+    });
+  });
+
+  describe('fromDate', () => {
+    it('should use the wall-clock time', () => {
+      const date = new Date('2024-01-01T23:45:30.500Z');
+      expect(TimeOfDay.fromDate(date, 'UTC').toString()).toBe('23:45:30.500');
+      expect(TimeOfDay.fromDate(date, 'Asia/Tokyo').toString()).toBe('08:45:30.500');
+      expect(TimeOfDay.fromDate(new Date(2024, 0, 1, 7, 5)).toString()).toBe('07:05');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => TimeOfDay.fromDate(new Date('invalid'))).toThrow(InvalidDateError);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should wrap around midnight', () => {
+      const time = new TimeOfDay(23);
+      expect(time.add(SignedTime.fromHours(3)).toString()).toBe('02:00');
+      expect(time.add(SignedTime.fromHours(-24)).toString()).toBe('23:00');
+      expect(new TimeOfDay(1).subtract(SignedTime.fromHours(2)).toString()).toBe('23:00');
+      expect(new TimeOfDay(1).subtract(SignedTime.fromDays(3)).toString()).toBe('01:00');
+    });
+
+    it('should calculate the forward distance', () => {
+      const night = new TimeOfDay(22);
+      const morning = new TimeOfDay(6);
+      expect(night.forwardDistanceTo(morning).toString()).toBe('08:00:00.000');
+      expect(morning.forwardDistanceTo(night).toString()).toBe('16:00:00.000');
+      expect(night.forwardDistanceTo(night).isZero()).toBe(true);
+    });
+  });
+
+  describe('comparison', () => {
+    it('should compare times of day', () => {
+      const times = [new TimeOfDay(12), new TimeOfDay(6), new TimeOfDay(18)];
+      expect(times.sort(TimeOfDay.compare).map((time) => time.hours)).toEqual([6, 12, 18]);
+      expect(new TimeOfDay(6).compareTo(new TimeOfDay(6))).toBe(0);
+      expect(new TimeOfDay(6).equals(new TimeOfDay(30))).toBe(true);
+      expect(new TimeOfDay(6).equals(new TimeOfDay(6, 1))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse the default format', () => {
+      expect(TimeOfDay.parse('09:30').toString('hh:mm:ss.SSS')).toBe('09:30:00.000');
+      expect(TimeOfDay.parse('09:30:15').seconds).toBe(15);
+      expect(TimeOfDay.parse('09:30:15.250').milliseconds).toBe(250);
+    });
+
+    it('should parse custom formats', () => {
+      expect(TimeOfDay.parse('9h05', 'h\\hmm').toString()).toBe('09:05');
+    });
+
+    it('should parse AM/PM', () => {
+      expect(TimeOfDay.parse('09:30 AM', 'hh:mm A').toString()).toBe('09:30');
+      expect(TimeOfDay.parse('09:30 PM', 'hh:mm A').toString()).toBe('21:30');
+      expect(TimeOfDay.parse('12:15 AM', 'hh:mm A').toString()).toBe('00:15');
+      expect(TimeOfDay.parse('12:15 PM', 'hh:mm A').toString()).toBe('12:15');
+      expect(TimeOfDay.parse('7pm', 'ha').toString()).toBe('19:00');
+    });
+
+    it('should parse AM/PM in either case', () => {
+      expect(TimeOfDay.parse('9:30 pm', 'h:mm A').toString()).toBe('21:30');
+      expect(TimeOfDay.parse('9:30 am', 'h:mm A').toString()).toBe('09:30');
+      expect(TimeOfDay.parse('7PM', 'ha').toString()).toBe('19:00');
+    });
+
+    it('should treat escaped and quoted meridiem characters as literals', () => {
+      expect(TimeOfDay.parse('at 7:00', "'at' h:mm").toString()).toBe('07:00');
+      expect(TimeOfDay.parse('7:00 A', 'h:mm \\A').toString()).toBe('07:00');
+    });
+
+    it('should reject invalid strings with the position', () => {
+      expect(() => TimeOfDay.parse('9:30')).toThrow(ParseError);
+      const result = TimeOfDay.tryParse('09:30 XM', 'hh:mm A');
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.position).toBe(5);
+        expect(result.error.format).toBe('hh:mm A');
+      }
+    });
+
+    it('should reject times out of range', () => {
+      expect(() => TimeOfDay.parse('24:00')).toThrow('Time of day out of range: 24:00');
+      expect(() => TimeOfDay.parse('-01:00')).toThrow(ParseError);
+      expect(() => TimeOfDay.parse('13:00 PM', 'hh:mm A')).toThrow(ParseError);
+      expect(() => TimeOfDay.parse('00:30 AM', 'hh:mm A')).toThrow(ParseError);
+
+      const result = TimeOfDay.tryParse('at 0:15 AM', "'at' h:mm A");
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.position).toBe(3);
+      expect(!result.ok && result.error.message).toBe('Time of day out of range: at 0:15 AM');
+    });
+
+    it('should return a result from tryParse', () => {
+      const result = TimeOfDay.tryParse('06:00');
+      expect(result.ok && result.value.hours).toBe(6);
+    });
+
+    it('should reject malformed formats', () => {
+      // @ts-expect-error: Testing invalid format
+      expect(() => TimeOfDay.parse('7:00', 'h:mm [A')).toThrow(InvalidFormatError);
+      // @ts-expect-error: Testing invalid format
+      const result = TimeOfDay.tryParse('7:00', 'h:mm [A');
+      expect(!result.ok && result.error).toBeInstanceOf(InvalidFormatError);
+      expect(!result.ok && result.error.position).toBe(5);
+      expect(!result.ok && result.error.format).toBe('h:mm [A');
+    });
+  });
+
+  describe('toString', () => {
+    it('should omit zero seconds and milliseconds by default', () => {
+      expect(new TimeOfDay(21, 5).toString()).toBe('21:05');
+      expect(new TimeOfDay(21, 5, 30).toString()).toBe('21:05:30');
+      expect(new TimeOfDay(21, 5, 0, 5).toString()).toBe('21:05:00.005');
+    });
+
+    it('should format AM/PM', () => {
+      expect(new TimeOfDay(21, 5).toString('hh:mm A')).toBe('09:05 PM');
+      expect(new TimeOfDay(0, 15).toString('h:mm A')).toBe('12:15 AM');
+      expect(new TimeOfDay(12).toString('h:mm a')).toBe('12:00 pm');
+      expect(new TimeOfDay(11, 59).toString('h:mm a')).toBe('11:59 am');
+    });
+
+    it('should round-trip through parse', () => {
+      for (const format of ['hh:mm A', 'h:mm:ss a', 'hh:mm:ss.SSS']) {
+        for (const hours of [0, 1, 11, 12, 13, 23]) {
+          const time = new TimeOfDay(hours, 7);
+          expect(TimeOfDay.parse(time.toString(format), format).equals(time)).toBe(true);
+        }
+      }
+    });
+
+    it('should serialize to JSON', () => {
+      expect(JSON.stringify({ opens: new TimeOfDay(9) })).toBe('{"opens":"09:00:00.000"}');
+    });
+  });
+});
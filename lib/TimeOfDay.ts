@@ -0,0 +1,445 @@
+import { InvalidDateError, ParseError } from './errors';
+import type { ParseResult } from './errors';
+import { compileFormat, tokenizeFormat } from './format';
+import type { FormatString } from './format';
+import { SignedTime } from './SignedTime';
+import { getWallClock } from './timeZone';
+
+/** Nanoseconds in a day */
+const NANOSECONDS_PER_DAY = 86400000000000n;
+
+/** Nanoseconds in 12 hours */
+const NANOSECONDS_PER_HALF_DAY = 43200000000000n;
+
+/** Nanoseconds in an hour */
+const NANOSECONDS_PER_HOUR = 3600000000000n;
+
+/** Default format, omitting zero seconds and milliseconds */
+const DEFAULT_FORMAT = 'hh:mm[:ss[.SSS]]';
+
+/** Meridiem tokens accepted in addition to the tokens of {@link SignedTime} */
+type MeridiemToken = 'A' | 'a';
+
+/**
+ * Replaces the meridiem tokens of a format with literal text
+ *
+ * `A` becomes 'AM'/'PM' and `a` becomes 'am'/'pm', unless the case is given. Escaped and
+ * quoted characters are left as they are, following the rules of {@link tokenizeFormat}.
+ *
+ * @param {string} format - Format string
+ * @param {boolean} pm - Whether to use the afternoon marker
+ * @param {boolean} [upper] - Whether to use uppercase markers regardless of the token
+ * @returns {string | undefined} Format with quoted markers, or undefined when it has no meridiem token
+ * @throws {InvalidFormatError} When a quote or bracket in the format is not terminated or is unmatched
+ */
+const replaceMeridiem = (format: string, pm: boolean, upper?: boolean): string | undefined => {
+  let result = '';
+  let quoted = false;
+  let found = false;
+  for (let i = 0; i < format.length; i++) {
+    const char = format.charAt(i);
+    if (char === '\\') {
+      result += format.slice(i, i + 2);
+      i++;
+    } else if (char === "'") {
+      // A doubled quote toggles twice, so it is handled both inside and outside quotes
+      quoted = !quoted;
+      result += char;
+    } else if (!quoted && (char === 'A' || char === 'a')) {
+      const marker = pm ? 'PM' : 'AM';
+      result += `'${(upper ?? char === 'A') ? marker : marker.toLowerCase()}'`;
+      found = true;
+    } else {
+      result += char;
+    }
+  }
+  if (!found) {
+    return undefined;
+  }
+  // Report a malformed format at its own positions rather than those of the replaced one
+  tokenizeFormat(format);
+  return result;
+};
+
+/**
+ * Wraps nanoseconds into a single day
+ *
+ * @param {bigint} nanoseconds - Nanoseconds since midnight, possibly out of range
+ * @returns {bigint} Nanoseconds within [0, 24h)
+ */
+const wrap = (nanoseconds: bigint): bigint =>
+  ((nanoseconds % NANOSECONDS_PER_DAY) + NANOSECONDS_PER_DAY) % NANOSECONDS_PER_DAY;
+
+/**
+ * Class representing a time of day on a 24-hour clock, independent of any date
+ *
+ * Arithmetic wraps around midnight, so adding 3 hours to 23:00 gives 02:00.
+ * The precision is nanoseconds, like {@link SignedTime}.
+ *
+ * @example
+ * ```typescript
+ * const closing = TimeOfDay.parse('23:00');
+ * console.log(closing.add(SignedTime.fromHours(3)).toString()); // "02:00"
+ *
+ * const shift = TimeOfDay.parse('22:00').forwardDistanceTo(TimeOfDay.parse('06:00'));
+ * console.log(shift.toString()); // "08:00:00.000"
+ *
+ * console.log(TimeOfDay.parse('9:30 PM', 'h:mm A').toString()); // "21:30"
+ * ```
+ */
+export class TimeOfDay {
+  /** Nanoseconds since midnight (0 to 24 hours, exclusive) */
+  #nanoseconds: bigint;
+
+  /**
+   * Creates a TimeOfDay instance
+   *
+   * Values out of range wrap around, so `new TimeOfDay(25)` is 01:00 and
+   * `new TimeOfDay(0, -30)` is 23:30.
+   *
+   * @param {number} [hours] - Hours (default: 0)
+   * @param {number} [minutes] - Minutes (default: 0)
+   * @param {number} [seconds] - Seconds (default: 0)
+   * @param {number} [milliseconds] - Milliseconds (default: 0)
+   * @throws {InvalidDurationError} When a value is not a finite number
+   *
+   * @example
+   * ```typescript
+   * const time = new TimeOfDay(9, 30); // 09:30
+   * ```
+   */
+  constructor(hours = 0, minutes = 0, seconds = 0, milliseconds = 0) {
+    this.#nanoseconds = wrap(
+      new SignedTime(hours, minutes, seconds, milliseconds).totalNanoseconds,
+    );
+  }
+
+  /**
+   * Creates a TimeOfDay instance from an offset since midnight
+   *
+   * @param {SignedTime} offset - Time since midnight; wraps around when out of range
+   * @returns {TimeOfDay} New TimeOfDay instance
+   *
+   * @example
+   * ```typescript
+   * const time = TimeOfDay.fromSignedTime(SignedTime.fromHours(-1)); // 23:00
+   * ```
+   */
+  static fromSignedTime(offset: SignedTime): TimeOfDay {
+    const time = new TimeOfDay();
+    time.#nanoseconds = wrap(offset.totalNanoseconds);
+    return time;
+  }
+
+  /**
+   * Creates a TimeOfDay instance from the wall-clock time of a Date object
+   *
+   * @param {Date} date - Date object
+   * @param {string} [timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+   * @returns {TimeOfDay} New TimeOfDay instance
+   * @throws {InvalidDateError} When the date is invalid
+   * @throws {RangeError} When the time zone is invalid
+   *
+   * @example
+   * ```typescript
+   * const now = TimeOfDay.fromDate(new Date(), 'Asia/Tokyo');
+   * ```
+   */
+  static fromDate(date: Date, timeZone?: string): TimeOfDay {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+      throw new InvalidDateError('date', date);
+    }
+    const { hour, minute, second, millisecond } = getWallClock(date, timeZone);
+    return new TimeOfDay(hour, minute, second, millisecond);
+  }
+
+  /**
+   * Creates a TimeOfDay instance from a string based on a format string
+   *
+   * Uses the format patterns of {@link SignedTime.fromFormat}, plus `A` for 'AM'/'PM'
+   * and `a` for 'am'/'pm', either of which matches both cases. With a meridiem token, the
+   * hours are on a 12-hour clock (1 to 12, where 12 AM is midnight and 12 PM is noon).
+   *
+   * @param {string} timeString - Time string to parse
+   * @param {string} [format] - Format string (default: 'hh:mm[:ss[.SSS]]'), checked at compile time when literal
+   * @returns {TimeOfDay} New TimeOfDay instance
+   * @throws {ParseError} When the time string does not match the format or is out of range
+   * @throws {InvalidFormatError} When a quote or bracket in the format is not terminated or is unmatched
+   *
+   * @example
+   * ```typescript
+   * TimeOfDay.parse('09:30'); // 09:30
+   * TimeOfDay.parse('12:15 AM', 'hh:mm A'); // 00:15
+   * TimeOfDay.parse('7pm', 'ha'); // 19:00
+   * ```
+   */
+  static parse<F extends string>(
+    timeString: string,
+    format?: FormatString<F, MeridiemToken>,
+  ): TimeOfDay {
+    return TimeOfDay.#parse(timeString, format ?? DEFAULT_FORMAT);
+  }
+
+  /**
+   * Parses a time string with a format, without checking the format at compile time
+   *
+   * @param {string} timeString - Time string to parse
+   * @param {string} format - Format string
+   * @returns {TimeOfDay} New TimeOfDay instance
+   * @throws {ParseError} When the time string does not match the format or is out of range
+   * @throws {InvalidFormatError} When a quote or bracket in the format is not terminated or is unmatched
+   */
+  static #parse(timeString: string, format: string): TimeOfDay {
+    // Markers are accepted in either case, whichever the token is
+    const candidates =
+      replaceMeridiem(format, false) === undefined
+        ? [{ compiled: compileFormat(format), offset: undefined }]
+        : [false, true].flatMap((pm) =>
+            [true, false].map((upper) => ({
+              compiled: compileFormat(replaceMeridiem(format, pm, upper) as string),
+              offset: pm ? 1n : 0n,
+            })),
+          );
+
+    for (const { compiled, offset } of candidates) {
+      const nanoseconds = /^[-+]/.test(timeString) ? null : compiled.parse(timeString);
+      if (nanoseconds === null) {
+        continue;
+      }
+
+      if (offset === undefined) {
+        if (nanoseconds < NANOSECONDS_PER_DAY) {
+          return TimeOfDay.fromSignedTime(SignedTime.fromNanoseconds(nanoseconds));
+        }
+      } else if (nanoseconds >= NANOSECONDS_PER_HOUR && nanoseconds < 13n * NANOSECONDS_PER_HOUR) {
+        return TimeOfDay.fromSignedTime(
+          SignedTime.fromNanoseconds(
+            (nanoseconds % NANOSECONDS_PER_HALF_DAY) + offset * NANOSECONDS_PER_HALF_DAY,
+          ),
+        );
+      }
+      throw new ParseError(
+        `Time of day out of range: ${timeString}`,
+        timeString,
+        compiled.fieldPosition(timeString, 'hour') ?? 0,
+        format,
+      );
+    }
+
+    throw new ParseError(
+      `Invalid time of day format. Expected format: ${format}`,
+      timeString,
+      Math.max(...candidates.map(({ compiled }) => compiled.mismatchPosition(timeString))),
+      format,
+    );
+  }
+
+  /**
+   * Parses a string like {@link TimeOfDay.parse}, returning the failure as a result instead of throwing
+   *
+   * @param {string} timeString - Time string to parse
+   * @param {string} [format] - Format string (default: 'hh:mm[:ss[.SSS]]'), checked at compile time when literal
+   * @returns {ParseResult<TimeOfDay>} Parsed time of day, or the error, including an
+   *   InvalidFormatError for a malformed format
+   *
+   * @example
+   * ```typescript
+   * const result = TimeOfDay.tryParse(input, 'h:mm A');
+   * if (!result.ok) {
+   *   highlight(result.error.position);
+   * }
+   * ```
+   */
+  static tryParse<F extends string>(
+    timeString: string,
+    format?: FormatString<F, MeridiemToken>,
+  ): ParseResult<TimeOfDay> {
+    try {
+      return { ok: true, value: TimeOfDay.#parse(timeString, format ?? DEFAULT_FORMAT) };
+    } catch (error) {
+      if (error instanceof ParseError) {
+        return { ok: false, error };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compares two times of day, for use with `Array.prototype.sort`
+   *
+   * @param {TimeOfDay} a - First time of day
+   * @param {TimeOfDay} b - Second time of day
+   * @returns {number} Negative if a is earlier in the day, positive if later, 0 if equal
+   *
+   * @example
+   * ```typescript
+   * times.sort(TimeOfDay.compare);
+   * ```
+   */
+  static compare(a: TimeOfDay, b: TimeOfDay): number {
+    return a.compareTo(b);
+  }
+
+  /**
+   * Hours (0-23)
+   *
+   * @returns {number} Hours
+   */
+  get hours(): number {
+    return Number(this.#nanoseconds / NANOSECONDS_PER_HOUR);
+  }
+
+  /**
+   * Minutes (0-59)
+   *
+   * @returns {number} Minutes
+   */
+  get minutes(): number {
+    return this.toSignedTime().minutes;
+  }
+
+  /**
+   * Seconds (0-59)
+   *
+   * @returns {number} Seconds
+   */
+  get seconds(): number {
+    return this.toSignedTime().seconds;
+  }
+
+  /**
+   * Milliseconds (0-999)
+   *
+   * @returns {number} Milliseconds
+   */
+  get milliseconds(): number {
+    return this.toSignedTime().milliseconds;
+  }
+
+  /**
+   * Adds time, wrapping around midnight
+   *
+   * @param {SignedTime} offset - Time to add (may be negative)
+   * @returns {TimeOfDay} New TimeOfDay instance
+   *
+   * @example
+   * ```typescript
+   * TimeOfDay.parse('23:00').add(SignedTime.fromHours(3)); // 02:00
+   * ```
+   */
+  add(offset: SignedTime): TimeOfDay {
+    return TimeOfDay.fromSignedTime(
+      SignedTime.fromNanoseconds(this.#nanoseconds + offset.totalNanoseconds),
+    );
+  }
+
+  /**
+   * Subtracts time, wrapping around midnight
+   *
+   * @param {SignedTime} offset - Time to subtract (may be negative)
+   * @returns {TimeOfDay} New TimeOfDay instance
+   *
+   * @example
+   * ```typescript
+   * TimeOfDay.parse('01:00').subtract(SignedTime.fromHours(2)); // 23:00
+   * ```
+   */
+  subtract(offset: SignedTime): TimeOfDay {
+    return this.add(offset.negate());
+  }
+
+  /**
+   * Calculates the time from this time of day forward to another, crossing midnight if needed
+   *
+   * The result is always in the range [0, 24h), so from 22:00 to 06:00 is 8 hours,
+   * and from a time to itself is zero.
+   *
+   * @param {TimeOfDay} other - Time of day to reach
+   * @returns {SignedTime} Non-negative time until the other time of day
+   *
+   * @example
+   * ```typescript
+   * TimeOfDay.parse('22:00').forwardDistanceTo(TimeOfDay.parse('06:00')); // 8 hours
+   * TimeOfDay.parse('06:00').forwardDistanceTo(TimeOfDay.parse('22:00')); // 16 hours
+   * ```
+   */
+  forwardDistanceTo(other: TimeOfDay): SignedTime {
+    return SignedTime.fromNanoseconds(wrap(other.#nanoseconds - this.#nanoseconds));
+  }
+
+  /**
+   * Compares this time of day with another
+   *
+   * @param {TimeOfDay} other - Time of day to compare with
+   * @returns {-1 | 0 | 1} -1 if this is earlier in the day, 1 if later, 0 if equal
+   */
+  compareTo(other: TimeOfDay): -1 | 0 | 1 {
+    if (this.#nanoseconds < other.#nanoseconds) return -1;
+    if (this.#nanoseconds > other.#nanoseconds) return 1;
+    return 0;
+  }
+
+  /**
+   * Checks if this time of day equals another
+   *
+   * @param {TimeOfDay} other - Time of day to compare with
+   * @returns {boolean} True if equal
+   */
+  equals(other: TimeOfDay): boolean {
+    return this.#nanoseconds === other.#nanoseconds;
+  }
+
+  /**
+   * Converts to the time since midnight
+   *
+   * @returns {SignedTime} Time since midnight (0 to 24 hours, exclusive)
+   *
+   * @example
+   * ```typescript
+   * TimeOfDay.parse('09:30').toSignedTime().totalMilliseconds; // 34200000
+   * ```
+   */
+  toSignedTime(): SignedTime {
+    return SignedTime.fromNanoseconds(this.#nanoseconds);
+  }
+
+  /**
+   * Formats the time of day
+   *
+   * Accepts the same formats as {@link TimeOfDay.parse}.
+   *
+   * @param {string} [format] - Format string (default: 'hh:mm[:ss[.SSS]]'), checked at compile time when literal
+   * @returns {string} Formatted time of day
+   * @throws {InvalidFormatError} When a quote or bracket in the format is not terminated or is unmatched
+   *
+   * @example
+   * ```typescript
+   * const time = new TimeOfDay(21, 5);
+   * time.toString(); // "21:05"
+   * time.toString('hh:mm:ss'); // "21:05:00"
+   * time.toString('h:mm A'); // "9:05 PM"
+   * ```
+   */
+  toString<F extends string>(format?: FormatString<F, MeridiemToken>): string {
+    const pattern: string = format ?? DEFAULT_FORMAT;
+    const pm = this.#nanoseconds >= NANOSECONDS_PER_HALF_DAY;
+    const meridiemFormat = replaceMeridiem(pattern, pm);
+    if (meridiemFormat === undefined) {
+      return compileFormat(pattern).format(this.#nanoseconds);
+    }
+    // 12-hour clock: 00:xx is 12:xx AM and 12:xx is 12:xx PM
+    const nanoseconds = this.#nanoseconds % NANOSECONDS_PER_HALF_DAY;
+    return compileFormat(meridiemFormat).format(
+      nanoseconds < NANOSECONDS_PER_HOUR ? nanoseconds + NANOSECONDS_PER_HALF_DAY : nanoseconds,
+    );
+  }
+
+  /**
+   * Converts to a string for JSON serialization
+   *
+   * @returns {string} Time of day in 'hh:mm:ss.SSS' format
+   */
+  toJSON(): string {
+    return this.toString('hh:mm:ss.SSS');
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { addBusinessTime, businessDuration } from './businessTime';
+import { ParseError } from './errors';
+import type { BusinessSchedule } from './businessTime';
+import { SignedTime } from './SignedTime';
+
+const weekdays: BusinessSchedule['hours'] = {
+  monday: [['09:00', '18:00']],
+  tuesday: [['09:00', '18:00']],
+  wednesday: [['09:00', '18:00']],
+  thursday: [['09:00', '18:00']],
+  friday: [['09:00', '18:00']],
+};
+
+// 2024-01-05 is a Friday and 2024-01-08 a Monday
+const schedule: BusinessSchedule = {
+  hours: weekdays,
+  breaks: [['12:00', '13:00']],
+  holidays: ['2024-01-08'],
+  timeZone: 'Asia/Tokyo',
+};
+
+describe('businessDuration', () => {
+  it('should count only time within business hours', () => {
+    expect(
+      businessDuration('2024-01-04T08:00:00', '2024-01-04T20:00:00', schedule).toString(),
+    ).toBe('08:00:00.000');
+    expect(
+      businessDuration('2024-01-04T10:30:00', '2024-01-04T12:30:00', schedule).toString(),
+    ).toBe('01:30:00.000');
+  });
+
+  it('should skip weekends and holidays', () => {
+    expect(
+      businessDuration('2024-01-05T17:00:00', '2024-01-09T10:00:00', schedule).toString(),
+    ).toBe('02:00:00.000');
+  });
+
+  it('should return a negative value when to is before from', () => {
+    expect(
+      businessDuration('2024-01-09T10:00:00', '2024-01-05T17:00:00', schedule).toString(),
+    ).toBe('-02:00:00.000');
+  });
+
+  it('should support the absolute and rounding options of timeDiff', () => {
+    expect(
+      businessDuration('2024-01-09T10:00:00', '2024-01-05T17:10:00', schedule, {
+        absolute: true,
+        roundTo: SignedTime.fromMinutes(15),
+        roundingMode: 'ceil',
+      }).toString(),
+    ).toBe('02:00:00.000');
+    expect(
+      businessDuration('2024-01-05T17:20:00', '2024-01-09T10:00:00', schedule, {
+        roundTo: 'hour',
+      }).toString(),
+    ).toBe('02:00:00.000');
+  });
+
+  it('should support multiple windows per day and holidays as dates', () => {
+    const split: BusinessSchedule = {
+      hours: {
+        saturday: [
+          ['10:00', '12:00'],
+          ['14:00', '16:00'],
+        ],
+      },
+      holidays: [new Date('2024-01-13T05:00:00Z')],
+      timeZone: 'UTC',
+    };
+    expect(businessDuration('2024-01-06T00:00:00', '2024-01-14T00:00:00', split).toString()).toBe(
+      '04:00:00.000',
+    );
+  });
+
+  it('should evaluate the schedule in its time zone', () => {
+    expect(
+      businessDuration('2024-01-04T00:00:00Z', '2024-01-04T02:00:00Z', schedule).toString(),
+    ).toBe('02:00:00.000');
+    expect(
+      businessDuration('2024-01-04T00:00:00Z', '2024-01-04T02:00:00Z', {
+        ...schedule,
+        timeZone: 'UTC',
+      }).isZero(),
+    ).toBe(true);
+  });
+
+  it('should throw error for invalid schedules', () => {
+    expect(() => businessDuration('2024-01-04', '2024-01-05', { hours: {} })).toThrow(
+      'Business schedule has no business hours',
+    );
+    expect(() => businessDuration('2024-01-04', '2024-01-05', { hours: {} })).toThrow(RangeError);
+    expect(() =>
+      businessDuration('2024-01-04', '2024-01-05', { hours: { monday: [['18:00', '09:00']] } }),
+    ).toThrow('Invalid business hours: 18:00-09:00');
+    expect(() =>
+      addBusinessTime('2024-01-01T09:00:00', SignedTime.fromHours(1), {
+        hours: { monday: [['12:00', '13:00']] },
+        breaks: [['12:00', '13:00']],
+      }),
+    ).toThrow('Business schedule has no business hours');
+    expect(() =>
+      businessDuration('2024-01-04', '2024-01-05', { hours: { monday: [['9:00', '30:00']] } }),
+    ).toThrow(RangeError);
+    expect(() =>
+      businessDuration('2024-01-04', '2024-01-05', { hours: { monday: [['9:00', 'noon']] } }),
+    ).toThrow(ParseError);
+    expect(() =>
+      businessDuration('2024-01-04', '2024-01-05', { ...schedule, timeZone: 'Mars/Olympus' }),
+    ).toThrow(RangeError);
+  });
+
+  it('should throw error for invalid dates', () => {
+    expect(() => businessDuration('invalid', '2024-01-05', schedule)).toThrow('Invalid Date');
+  });
+
+  it('should read holidays from an iterator only once', () => {
+    function* holidays(): Generator<string> {
+      yield '2024-01-08';
+    }
+    const once = { ...schedule, holidays: holidays() };
+    expect(businessDuration('2024-01-08', '2024-01-09', once).isZero()).toBe(true);
+    expect(businessDuration('2024-01-08', '2024-01-09', once).isZero()).toBe(true);
+  });
+});
+
+describe('addBusinessTime', () => {
+  const iso = (date: Date): string => date.toISOString();
+
+  it('should add business time within a day, skipping breaks', () => {
+    expect(iso(addBusinessTime('2024-01-04T11:00:00', SignedTime.fromHours(2), schedule))).toBe(
+      '2024-01-04T05:00:00.000Z',
+    );
+  });
+
+  it('should carry over to the next business day, skipping weekends and holidays', () => {
+    expect(iso(addBusinessTime('2024-01-05T17:00:00', SignedTime.fromHours(3), schedule))).toBe(
+      '2024-01-09T02:00:00.000Z',
+    );
+  });
+
+  it('should start from the next opening when outside business hours', () => {
+    expect(iso(addBusinessTime('2024-01-04T20:00:00', SignedTime.fromMinutes(30), schedule))).toBe(
+      '2024-01-05T00:30:00.000Z',
+    );
+  });
+
+  it('should return the end of a window rather than the next opening', () => {
+    expect(iso(addBusinessTime('2024-01-04T17:00:00', SignedTime.fromHours(1), schedule))).toBe(
+      '2024-01-04T09:00:00.000Z',
+    );
+  });
+
+  it('should move backward for a negative amount', () => {
+    expect(iso(addBusinessTime('2024-01-09T10:00:00', SignedTime.fromHours(-3), schedule))).toBe(
+      '2024-01-05T07:00:00.000Z',
+    );
+  });
+
+  it('should return the same instant for zero', () => {
+    expect(iso(addBusinessTime('2024-01-06T10:00:00', new SignedTime(), schedule))).toBe(
+      '2024-01-06T01:00:00.000Z',
+    );
+  });
+
+  it('should be the inverse of businessDuration', () => {
+    const start = '2024-01-03T15:20:00';
+    for (const minutes of [0, 45, 400, 1500, -700]) {
+      const amount = SignedTime.fromMinutes(minutes);
+      const end = addBusinessTime(start, amount, schedule);
+      expect(businessDuration(start, end, schedule).equals(amount)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,316 @@
+import { applyDiffOptions, parseDateLike } from './duration';
+import type { DateLike, DiffOptions } from './duration';
+import { SignedTime } from './SignedTime';
+import { TimeInterval } from './TimeInterval';
+import { assertTimeZone, epochToWallClock, fromWallClock, startOfDay, toDateKey } from './timeZone';
+
+/** Day of the week */
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+/**
+ * Opening window within a day as `[start, end]` times of day (e.g. `['09:00', '17:30']`)
+ *
+ * Times are in `h:mm` or `h:mm:ss` format. The end may be `'24:00'` for a window that
+ * lasts until midnight; windows that span midnight must be split into two days.
+ */
+export type BusinessHours = readonly [start: string, end: string];
+
+/** Weekly schedule of business hours */
+export interface BusinessSchedule {
+  /** Opening windows per day of the week; days without windows are closed */
+  hours: Readonly<Partial<Record<Weekday, readonly BusinessHours[]>>>;
+  /** Breaks excluded from the opening windows of every day (e.g. `[['12:00', '13:00']]`) */
+  breaks?: readonly BusinessHours[];
+  /** Closed days, as dates (e.g. '2024-01-01') or instants within the day */
+  holidays?: Iterable<DateLike>;
+  /** IANA time zone name or 'UTC' in which the schedule applies (default: local time zone) */
+  timeZone?: string;
+}
+
+/** Days of the week in the order of `Date#getDay()` */
+export const WEEKDAYS: readonly Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+/** Milliseconds in a day */
+const MILLISECONDS_PER_DAY = 86400000;
+
+/** Date without a time (e.g. '2024-01-01') */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Schedule prepared for repeated evaluation */
+interface CompiledSchedule {
+  /** Opening windows per day of the week, in milliseconds since midnight */
+  hours: readonly (readonly (readonly [number, number])[])[];
+  /** Breaks in milliseconds since midnight */
+  breaks: readonly (readonly [number, number])[];
+  /** Closed days as 'YYYY-MM-DD' keys */
+  holidays: ReadonlySet<string>;
+  timeZone: string | undefined;
+}
+
+/**
+ * Converts business hours to milliseconds since midnight
+ *
+ * @param {BusinessHours} hours - Business hours
+ * @returns {[number, number]} Start and end in milliseconds since midnight
+ * @throws {ParseError} When a time is not in `h:mm` or `h:mm:ss` format
+ * @throws {RangeError} When a time is outside the day, or the end is not after the start
+ */
+const parseBusinessHours = ([start, end]: BusinessHours): [number, number] => {
+  const startMilliseconds = SignedTime.parse(start).totalMilliseconds;
+  const endMilliseconds = SignedTime.parse(end).totalMilliseconds;
+  if (
+    startMilliseconds < 0 ||
+    endMilliseconds > MILLISECONDS_PER_DAY ||
+    endMilliseconds <= startMilliseconds
+  ) {
+    throw new RangeError(`Invalid business hours: ${start}-${end}`);
+  }
+  return [startMilliseconds, endMilliseconds];
+};
+
+/**
+ * Validates and prepares a schedule
+ *
+ * @param {BusinessSchedule} schedule - Schedule
+ * @returns {CompiledSchedule} Compiled schedule
+ * @throws {ParseError} When a time of the business hours or breaks is not valid
+ * @throws {InvalidDateError} When a holiday is invalid
+ * @throws {RangeError} When the schedule has no business hours outside breaks or invalid ones,
+ *   or the time zone is invalid
+ */
+const compileSchedule = (schedule: BusinessSchedule): CompiledSchedule => {
+  const { timeZone } = schedule;
+  if (timeZone !== undefined) {
+    assertTimeZone(timeZone);
+  }
+
+  const hours = WEEKDAYS.map((weekday) => (schedule.hours[weekday] ?? []).map(parseBusinessHours));
+  const breaks = (schedule.breaks ?? []).map(parseBusinessHours);
+
+  // Evaluate the windows on the epoch day; only their lengths matter here
+  const toInterval = ([start, end]: readonly [number, number]): TimeInterval =>
+    new TimeInterval(new Date(start), new Date(end));
+  const breakIntervals = breaks.map(toInterval);
+  const hasBusinessTime = hours.some((windows) =>
+    windows.some((window) => toInterval(window).subtract(...breakIntervals).length > 0),
+  );
+  if (!hasBusinessTime) {
+    throw new RangeError('Business schedule has no business hours');
+  }
+
+  return { hours, breaks, holidays: compileHolidays(schedule.holidays ?? [], timeZone), timeZone };
+};
+
+/** Holidays read from one-shot iterators, which cannot be read again on later calls */
+const iteratorHolidays = new WeakMap<object, ReadonlySet<string>>();
+
+/**
+ * Converts holidays to a set of 'YYYY-MM-DD' keys
+ *
+ * Iterators such as generators are read only once, and the result is reused for
+ * later calls with the same iterator.
+ *
+ * @param {Iterable<DateLike>} holidays - Closed days
+ * @param {string | undefined} timeZone - Time zone of the schedule
+ * @returns {ReadonlySet<string>} Closed days as 'YYYY-MM-DD' keys
+ * @throws {InvalidDateError} When a holiday is invalid
+ */
+const compileHolidays = (
+  holidays: Iterable<DateLike>,
+  timeZone: string | undefined,
+): ReadonlySet<string> => {
+  const isIterator = (holidays[Symbol.iterator]() as unknown) === holidays;
+  const cached = isIterator ? iteratorHolidays.get(holidays) : undefined;
+  if (cached) {
+    return cached;
+  }
+
+  const keys = new Set<string>();
+  for (const holiday of holidays) {
+    keys.add(
+      typeof holiday === 'string' && DATE_PATTERN.test(holiday)
+        ? holiday
+        : toDateKey(startOfDay(parseDateLike(holiday, timeZone, 'holidays'), timeZone)),
+    );
+  }
+
+  if (isIterator) {
+    iteratorHolidays.set(holidays, keys);
+  }
+  return keys;
+};
+
+/**
+ * Gets the business intervals of a day, excluding breaks
+ *
+ * @param {CompiledSchedule} schedule - Compiled schedule
+ * @param {number} day - Midnight of the day as wall-clock milliseconds (see {@link wallClockToEpoch})
+ * @returns {TimeInterval[]} Business intervals sorted by start
+ */
+const businessIntervalsOf = (schedule: CompiledSchedule, day: number): TimeInterval[] => {
+  if (schedule.holidays.has(toDateKey(day))) {
+    return [];
+  }
+
+  const toInterval = ([start, end]: readonly [number, number]): TimeInterval =>
+    new TimeInterval(
+      fromWallClock(epochToWallClock(day + start), schedule.timeZone),
+      fromWallClock(epochToWallClock(day + end), schedule.timeZone),
+    );
+
+  const breaks = schedule.breaks.map(toInterval);
+  const windows = (schedule.hours[new Date(day).getUTCDay()] ?? []).map(toInterval);
+  return TimeInterval.merge(windows.flatMap((window) => window.subtract(...breaks)));
+};
+
+/**
+ * Calculates the business time elapsed between two dates
+ *
+ * Only time within the opening windows of the schedule counts, excluding breaks and
+ * holidays. As with {@link timeDiff}, the result is negative when `to` is before `from`,
+ * and can be converted to its absolute value and rounded with the same options.
+ *
+ * @param {DateLike} from - Start date/time
+ * @param {DateLike} to - End date/time
+ * @param {BusinessSchedule} schedule - Weekly schedule of business hours
+ * @param {DiffOptions} options - Adjustment options
+ * @param {boolean} [options.absolute] - If true, converts the result to absolute value (default: false)
+ * @param {RoundTo} [options.roundTo] - Rounding unit or increment
+ * @param {RoundingMode} [options.roundingMode] - Rounding mode (default: 'halfAwayFromZero')
+ * @returns {SignedTime} Elapsed business time
+ * @throws {InvalidDateError} When invalid dates are specified
+ * @throws {ParseError} When a time of the schedule is not valid
+ * @throws {RangeError} When the schedule or the time zone is invalid
+ *
+ * @example
+ * ```typescript
+ * const schedule: BusinessSchedule = {
+ *   hours: {
+ *     monday: [['09:00', '18:00']],
+ *     tuesday: [['09:00', '18:00']],
+ *     wednesday: [['09:00', '18:00']],
+ *     thursday: [['09:00', '18:00']],
+ *     friday: [['09:00', '18:00']],
+ *   },
+ *   breaks: [['12:00', '13:00']],
+ *   holidays: ['2024-01-08'],
+ * };
+ *
+ * // Friday 17:00 to Tuesday 10:00, with Monday a holiday
+ * businessDuration('2024-01-05T17:00:00', '2024-01-09T10:00:00', schedule).toString(); // "02:00:00.000"
+ * ```
+ */
+export const businessDuration = (
+  from: DateLike,
+  to: DateLike,
+  schedule: BusinessSchedule,
+  options: DiffOptions = {},
+): SignedTime => {
+  const compiled = compileSchedule(schedule);
+  const fromDate = parseDateLike(from, compiled.timeZone, 'from');
+  const toDate = parseDateLike(to, compiled.timeZone, 'to');
+
+  const [start, end] = fromDate <= toDate ? [fromDate, toDate] : [toDate, fromDate];
+  const range = new TimeInterval(start, end);
+
+  let total = new SignedTime();
+  const lastDay = startOfDay(end, compiled.timeZone);
+  for (
+    let day = startOfDay(start, compiled.timeZone);
+    day <= lastDay;
+    day += MILLISECONDS_PER_DAY
+  ) {
+    for (const interval of businessIntervalsOf(compiled, day)) {
+      const overlap = interval.intersection(range);
+      if (overlap) {
+        total = total.add(overlap.length());
+      }
+    }
+  }
+
+  return applyDiffOptions(fromDate <= toDate ? total : total.negate(), options);
+};
+
+/**
+ * Adds business time to a date
+ *
+ * Time is only counted within the opening windows of the schedule, skipping breaks,
+ * closed days and holidays. A negative amount moves backward. This is the inverse of
+ * {@link businessDuration}: `businessDuration(date, addBusinessTime(date, amount, schedule), schedule)`
+ * equals `amount`.
+ *
+ * When the result falls on the end of an opening window, the end is returned rather than
+ * the start of the next window.
+ *
+ * @param {DateLike} date - Start date/time
+ * @param {SignedTime} amount - Business time to add
+ * @param {BusinessSchedule} schedule - Weekly schedule of business hours
+ * @returns {Date} Date/time after adding the business time
+ * @throws {InvalidDateError} When an invalid date is specified
+ * @throws {ParseError} When a time of the schedule is not valid
+ * @throws {RangeError} When the schedule or the time zone is invalid
+ *
+ * @example
+ * ```typescript
+ * // 3 business hours after Friday 17:00 is Tuesday 11:00 (with the schedule above)
+ * addBusinessTime('2024-01-05T17:00:00', SignedTime.fromHours(3), schedule);
+ * ```
+ */
+export const addBusinessTime = (
+  date: DateLike,
+  amount: SignedTime,
+  schedule: BusinessSchedule,
+): Date => {
+  const compiled = compileSchedule(schedule);
+  const cursor = parseDateLike(date, compiled.timeZone).getTime();
+  const forward = !amount.isNegative();
+  let remaining = Math.abs(amount.totalMilliseconds);
+
+  if (remaining === 0) {
+    return new Date(cursor);
+  }
+
+  // Every week has business time, so only holidays can extend a run of closed days
+  const maxClosedDays = 7 + compiled.holidays.size;
+  let closedDays = 0;
+
+  const step = forward ? MILLISECONDS_PER_DAY : -MILLISECONDS_PER_DAY;
+  for (let day = startOfDay(new Date(cursor), compiled.timeZone); ; day += step) {
+    const intervals = businessIntervalsOf(compiled, day);
+    if (intervals.length === 0) {
+      closedDays += 1;
+      if (closedDays > maxClosedDays) {
+        throw new RangeError(`No business time found within ${maxClosedDays} days`);
+      }
+      continue;
+    }
+    closedDays = 0;
+
+    for (const interval of forward ? intervals : intervals.reverse()) {
+      const start = forward ? Math.max(interval.start.getTime(), cursor) : interval.start.getTime();
+      const end = forward ? interval.end.getTime() : Math.min(interval.end.getTime(), cursor);
+      if (end <= start) {
+        continue;
+      }
+      if (remaining <= end - start) {
+        return new Date(forward ? start + remaining : end - remaining);
+      }
+      remaining -= end - start;
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { addTo, between, subtractFrom } from './dateArithmetic';
+import { duration } from './duration';
+import { SignedTime } from './SignedTime';
+
+const newYork = { timeZone: 'America/New_York' };
+const newYorkWall = { timeZone: 'America/New_York', clock: 'wall' } as const;
+
+describe('addTo', () => {
+  it('should add time to the instant by default', () => {
+    expect(addTo('2024-01-01T10:00:00Z', SignedTime.fromMinutes(90)).toISOString()).toBe(
+      '2024-01-01T11:30:00.000Z',
+    );
+    expect(addTo(new Date('2024-01-01T10:00:00Z'), new SignedTime(-2)).toISOString()).toBe(
+      '2024-01-01T08:00:00.000Z',
+    );
+  });
+
+  it('should keep absolute time across a DST transition', () => {
+    // 2024-03-09T12:00 EST is 17:00Z; 24 hours later is 13:00 EDT
+    expect(addTo('2024-03-09T12:00:00', SignedTime.fromHours(24), newYork).toISOString()).toBe(
+      '2024-03-10T17:00:00.000Z',
+    );
+  });
+
+  it('should add time to the wall clock with clock: wall', () => {
+    expect(addTo('2024-03-09T12:00:00', SignedTime.fromHours(24), newYorkWall).toISOString()).toBe(
+      '2024-03-10T16:00:00.000Z',
+    );
+    expect(addTo('2024-11-03T12:00:00', SignedTime.fromDays(-1), newYorkWall).toISOString()).toBe(
+      '2024-11-02T16:00:00.000Z',
+    );
+  });
+
+  it('should shift wall-clock times skipped by a DST transition forward', () => {
+    expect(addTo('2024-03-10T01:30:00', SignedTime.fromHours(1), newYorkWall).toISOString()).toBe(
+      '2024-03-10T07:30:00.000Z',
+    );
+  });
+
+  it('should throw error for invalid input', () => {
+    expect(() => addTo('invalid', SignedTime.fromHours(1))).toThrow('Invalid Date');
+    expect(() =>
+      addTo('2024-01-01T10:00:00', SignedTime.fromHours(1), { timeZone: 'Mars/Olympus' }),
+    ).toThrow(RangeError);
+  });
+});
+
+describe('subtractFrom', () => {
+  it('should subtract time from a date', () => {
+    expect(subtractFrom('2024-01-01T10:00:00Z', SignedTime.fromMinutes(90)).toISOString()).toBe(
+      '2024-01-01T08:30:00.000Z',
+    );
+    expect(
+      subtractFrom('2024-03-10T12:00:00', SignedTime.fromHours(24), newYorkWall).toISOString(),
+    ).toBe('2024-03-09T17:00:00.000Z');
+  });
+});
+
+describe('between', () => {
+  it('should be the same as duration in elapsed mode', () => {
+    expect(between('2024-01-01T10:00:00', '2024-01-02T12:30:00').toString()).toBe('26:30:00.000');
+    expect(between('2024-03-09T12:00:00', '2024-03-10T12:00:00', newYorkWall).toString()).toBe(
+      '24:00:00.000',
+    );
+  });
+
+  it('should be the inverse of addTo', () => {
+    const pairs = [
+      ['2024-03-09T12:00:00', '2024-03-10T12:00:00'],
+      ['2024-03-10T04:00:00', '2024-03-10T01:15:00'],
+      ['2024-11-02T23:00:00', '2024-11-04T08:45:30.250'],
+    ] as const;
+
+    for (const options of [{}, newYork, newYorkWall]) {
+      for (const [from, to] of pairs) {
+        const time = between(from, to, options);
+        expect(addTo(from, time, options).getTime()).toBe(
+          addTo(to, new SignedTime(), options).getTime(),
+        );
+        expect(addTo(from, duration(from, to, options), options).getTime()).toBe(
+          addTo(to, new SignedTime(), options).getTime(),
+        );
+      }
+    }
+  });
+});
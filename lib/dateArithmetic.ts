@@ -0,0 +1,116 @@
+import { duration, parseDateLike } from './duration';
+import type { DateLike, DurationOptions } from './duration';
+import type { SignedTime } from './SignedTime';
+import {
+  assertTimeZone,
+  epochToWallClock,
+  fromWallClock,
+  getWallClock,
+  wallClockToEpoch,
+} from './timeZone';
+
+/** Options for applying time to dates */
+export type DateArithmeticOptions = Pick<DurationOptions, 'timeZone' | 'clock'>;
+
+/**
+ * Adds time to a date
+ *
+ * With the default `clock: 'absolute'`, the time is added to the instant, so adding 24 hours
+ * across a daylight saving time transition lands on a different wall-clock time. With
+ * `clock: 'wall'`, the time is added to the wall-clock reading in the time zone instead.
+ * A resulting wall-clock time skipped by a forward transition is shifted forward by the
+ * length of the transition, and one repeated by a backward transition resolves to the
+ * earlier instant.
+ *
+ * This is the inverse of {@link between} with the same options:
+ * `addTo(from, between(from, to, options), options)` equals `to` (for `clock: 'wall'`,
+ * unless `to` is the later of two repeated wall-clock times).
+ *
+ * @param {DateLike} date - Date/time to add to
+ * @param {SignedTime} time - Time to add (may be negative)
+ * @param {DateArithmeticOptions} options - Calculation options
+ * @param {string} [options.timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+ * @param {DurationClock} [options.clock] - Which clock the time is added on (default: 'absolute')
+ * @returns {Date} New Date object
+ * @throws {InvalidDateError} When an invalid date is specified
+ * @throws {RangeError} When the time zone is invalid
+ *
+ * @example
+ * ```typescript
+ * const options = { timeZone: 'America/New_York' };
+ *
+ * // Clocks spring forward at 02:00 on 2024-03-10
+ * addTo('2024-03-09T12:00:00', SignedTime.fromHours(24), options); // 2024-03-10T13:00 in New York
+ * addTo('2024-03-09T12:00:00', SignedTime.fromHours(24), { ...options, clock: 'wall' }); // 2024-03-10T12:00 in New York
+ * ```
+ */
+export const addTo = (
+  date: DateLike,
+  time: SignedTime,
+  options: DateArithmeticOptions = {},
+): Date => {
+  const { timeZone } = options;
+  if (timeZone !== undefined) {
+    assertTimeZone(timeZone);
+  }
+
+  const base = parseDateLike(date, timeZone);
+  if (options.clock !== 'wall') {
+    return new Date(base.getTime() + time.totalMilliseconds);
+  }
+
+  const wallClock = wallClockToEpoch(getWallClock(base, timeZone)) + time.totalMilliseconds;
+  return fromWallClock(epochToWallClock(wallClock), timeZone);
+};
+
+/**
+ * Subtracts time from a date
+ *
+ * Same as {@link addTo} with the negated time.
+ *
+ * @param {DateLike} date - Date/time to subtract from
+ * @param {SignedTime} time - Time to subtract (may be negative)
+ * @param {DateArithmeticOptions} options - Calculation options
+ * @param {string} [options.timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+ * @param {DurationClock} [options.clock] - Which clock the time is subtracted on (default: 'absolute')
+ * @returns {Date} New Date object
+ * @throws {InvalidDateError} When an invalid date is specified
+ * @throws {RangeError} When the time zone is invalid
+ *
+ * @example
+ * ```typescript
+ * subtractFrom('2024-01-01T10:00:00', SignedTime.fromMinutes(90)); // 2024-01-01T08:30 (local time)
+ * ```
+ */
+export const subtractFrom = (
+  date: DateLike,
+  time: SignedTime,
+  options: DateArithmeticOptions = {},
+): Date => addTo(date, time.negate(), options);
+
+/**
+ * Calculates the time between two dates, as the inverse of {@link addTo}
+ *
+ * Same as {@link duration} in `elapsed` mode with the same options.
+ *
+ * @param {DateLike} from - Start date/time
+ * @param {DateLike} to - End date/time
+ * @param {DateArithmeticOptions} options - Calculation options
+ * @param {string} [options.timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+ * @param {DurationClock} [options.clock] - Which clock the time is measured on (default: 'absolute')
+ * @returns {SignedTime} Time between the two dates
+ * @throws {InvalidDateError} When invalid dates are specified
+ * @throws {RangeError} When the time zone is invalid
+ *
+ * @example
+ * ```typescript
+ * const time = between('2024-01-01T10:00:00', '2024-01-02T12:30:00');
+ * console.log(time.toString()); // "26:30:00.000"
+ * addTo('2024-01-01T10:00:00', time); // 2024-01-02T12:30 (local time)
+ * ```
+ */
+export const between = (
+  from: DateLike,
+  to: DateLike,
+  options: DateArithmeticOptions = {},
+): SignedTime => duration(from, to, { ...options, mode: 'elapsed' });
@@ -0,0 +1,307 @@
+import { describe, it, expect } from 'vitest';
+import { duration, elapsed, timeDiff } from './duration';
+import { InvalidDateError, TimeDeltaError } from './errors';
+import { SignedTime } from './SignedTime';
+
+describe('duration', () => {
+  it('should calculate duration between two dates', () => {
+    const from = new Date('2024-01-01T10:00:00');
+    const to = new Date('2024-01-01T12:30:00');
+    const diff = duration(from, to);
+    expect(diff.toString()).toBe('02:30:00.000');
+  });
+
+  it('should handle negative duration', () => {
+    const from = new Date('2024-01-01T12:00:00');
+    const to = new Date('2024-01-01T10:00:00');
+    const diff = duration(from, to);
+    expect(diff.toString()).toBe('-02:00:00.000');
+  });
+
+  it('should accept string dates', () => {
+    const diff = duration('2024-01-01T10:00:00', '2024-01-01T12:30:00');
+    expect(diff.toString()).toBe('02:30:00.000');
+  });
+
+  it('should accept timestamps', () => {
+    const from = new Date('2024-01-01T10:00:00').getTime();
+    const to = new Date('2024-01-01T12:30:00').getTime();
+    const diff = duration(from, to);
+    expect(diff.toString()).toBe('02:30:00.000');
+  });
+
+  it('should handle milliseconds precision', () => {
+    const from = new Date('2024-01-01T10:00:00.000');
+    const to = new Date('2024-01-01T10:00:00.500');
+    const diff = duration(from, to);
+    expect(diff.toString()).toBe('00:00:00.500');
+  });
+
+  describe('mode option', () => {
+    it('should calculate elapsed time across midnight by default', () => {
+      const diff = duration('2024-01-01T23:00:00', '2024-01-02T01:00:00');
+      expect(diff.toString()).toBe('02:00:00.000');
+    });
+
+    it('should preserve multi-day spans in elapsed mode', () => {
+      const diff = duration('2024-01-01T10:00:00', '2024-01-03T12:00:00', { mode: 'elapsed' });
+      expect(diff.toString()).toBe('50:00:00.000');
+      expect(duration('2024-01-03T12:00:00', '2024-01-01T10:00:00').toString()).toBe(
+        '-50:00:00.000',
+      );
+    });
+
+    it('should compare times of day only in timeOfDay mode', () => {
+      const diff = duration('2024-01-01T10:00:00', '2024-01-05T12:30:00', { mode: 'timeOfDay' });
+      expect(diff.toString()).toBe('02:30:00.000');
+    });
+
+    it('should wrap around midnight in timeOfDay mode', () => {
+      const diff = duration('2024-01-01T23:00:00', '2024-01-02T01:00:00', { mode: 'timeOfDay' });
+      expect(diff.toString()).toBe('02:00:00.000');
+      expect(
+        duration('2024-01-01T12:00:00', '2024-01-01T10:00:00', { mode: 'timeOfDay' }).toString(),
+      ).toBe('22:00:00.000');
+      expect(
+        duration('2024-01-01T10:00:00', '2024-01-02T10:00:00', { mode: 'timeOfDay' }).isZero(),
+      ).toBe(true);
+    });
+  });
+
+  describe('timeZone option', () => {
+    it('should read date-time strings without an offset as wall-clock time in the zone', () => {
+      expect(
+        duration('2024-01-01T10:00:00', '2024-01-01T10:00:00Z', {
+          timeZone: 'Asia/Tokyo',
+        }).toString(),
+      ).toBe('09:00:00.000');
+      expect(
+        duration('2024-01-01T10:00:00', '2024-01-01T10:00:00Z', { timeZone: 'UTC' }).isZero(),
+      ).toBe(true);
+    });
+
+    it('should measure absolute elapsed time across a DST transition by default', () => {
+      const options = { timeZone: 'America/New_York' };
+      expect(duration('2024-03-10T01:00:00', '2024-03-10T04:00:00', options).toString()).toBe(
+        '02:00:00.000',
+      );
+      expect(duration('2024-11-03T00:00:00', '2024-11-04T00:00:00', options).toString()).toBe(
+        '25:00:00.000',
+      );
+    });
+
+    it('should measure the wall-clock difference with clock: wall', () => {
+      const options = { timeZone: 'America/New_York', clock: 'wall' } as const;
+      expect(duration('2024-03-10T01:00:00', '2024-03-10T04:00:00', options).toString()).toBe(
+        '03:00:00.000',
+      );
+      expect(duration('2024-11-03T00:00:00', '2024-11-04T00:00:00', options).toString()).toBe(
+        '24:00:00.000',
+      );
+    });
+
+    it('should compare wall-clock times of day in the zone in timeOfDay mode', () => {
+      const diff = duration('2024-01-01T13:00:00Z', '2024-01-01T15:30:00Z', {
+        mode: 'timeOfDay',
+        timeZone: 'Asia/Tokyo',
+      });
+      expect(diff.toString()).toBe('02:30:00.000');
+      expect(
+        duration('2024-01-01T14:00:00Z', '2024-01-01T16:00:00Z', {
+          mode: 'timeOfDay',
+          timeZone: 'Asia/Tokyo',
+        }).toString(),
+      ).toBe('02:00:00.000');
+    });
+
+    it('should throw a RangeError for an unknown time zone', () => {
+      expect(() =>
+        duration('2024-01-01T10:00:00', '2024-01-01T12:00:00', { timeZone: 'Mars/Olympus' }),
+      ).toThrow(RangeError);
+    });
+
+    it('should throw error for out-of-range fields', () => {
+      expect(() =>
+        duration('2024-02-30T10:00:00', '2024-03-01T10:00:00', { timeZone: 'UTC' }),
+      ).toThrow('Invalid Date');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should throw error for invalid date string', () => {
+      expect(() => duration('invalid', '2024-01-01')).toThrow('Invalid Date');
+      expect(() => duration('2024-01-01', 'invalid')).toThrow('Invalid Date');
+      expect(() => duration('invalid', 'invalid')).toThrow('Invalid Date');
+    });
+
+    it('should throw error for invalid Date objects', () => {
+      expect(() => duration(new Date('invalid'), new Date())).toThrow('Invalid Date');
+      expect(() => duration(new Date(), new Date('invalid'))).toThrow('Invalid Date');
+    });
+
+    it('should throw error for NaN timestamps', () => {
+      expect(() => duration(NaN, Date.now())).toThrow('Invalid Date');
+      expect(() => duration(Date.now(), NaN)).toThrow('Invalid Date');
+    });
+
+    it('should throw error for invalid input types', () => {
+      // @ts-expect-error: Testing invalid input type
+      expect(() => duration(null, new Date())).toThrow('Invalid Date');
+      // @ts-expect-error: Testing invalid input type
+      expect(() => duration(undefined, new Date())).toThrow('Invalid Date');
+      // @ts-expect-error: Testing invalid input type
+      expect(() => duration({}, new Date())).toThrow('Invalid Date');
+    });
+
+    it('should throw InvalidDateError indicating the argument', () => {
+      expect(() => duration('invalid', '2024-01-01')).toThrow(InvalidDateError);
+      expect(() => duration('invalid', '2024-01-01')).toThrow(TimeDeltaError);
+      expect(() => duration('invalid', '2024-01-01')).toThrow(
+        expect.objectContaining({ argument: 'from', value: 'invalid' }),
+      );
+      expect(() => duration('2024-01-01', NaN)).toThrow(
+        expect.objectContaining({ argument: 'to' }),
+      );
+    });
+  });
+});
+
+describe('elapsed', () => {
+  it('should calculate the true elapsed time between two instants', () => {
+    const diff = elapsed('2024-01-01T22:00:00', '2024-01-03T01:30:00');
+    expect(diff.toString()).toBe('27:30:00.000');
+  });
+
+  it('should throw error for invalid dates', () => {
+    expect(() => elapsed('invalid', '2024-01-01')).toThrow('Invalid Date');
+  });
+});
+
+describe('timeDiff', () => {
+  describe('basic functionality', () => {
+    it('should calculate time difference', () => {
+      const from = new Date('2024-01-01T10:00:00');
+      const to = new Date('2024-01-01T12:30:00');
+      const diff = timeDiff(from, to);
+      expect(diff.toString()).toBe('02:30:00.000');
+    });
+
+    it('should handle negative difference', () => {
+      const from = new Date('2024-01-01T12:00:00');
+      const to = new Date('2024-01-01T10:00:00');
+      const diff = timeDiff(from, to);
+      expect(diff.toString()).toBe('-02:00:00.000');
+    });
+  });
+
+  describe('absolute option', () => {
+    it('should return absolute value when absolute is true', () => {
+      const from = new Date('2024-01-01T12:00:00');
+      const to = new Date('2024-01-01T10:00:00');
+      const diff = timeDiff(from, to, { absolute: true });
+      expect(diff.toString()).toBe('02:00:00.000');
+    });
+
+    it('should preserve sign when absolute is false', () => {
+      const from = new Date('2024-01-01T12:00:00');
+      const to = new Date('2024-01-01T10:00:00');
+      const diff = timeDiff(from, to, { absolute: false });
+      expect(diff.toString()).toBe('-02:00:00.000');
+    });
+  });
+
+  describe('roundTo option', () => {
+    const from = new Date('2024-01-01T10:00:00');
+    const to = new Date('2024-01-01T12:30:45.500');
+
+    it('should round to hour', () => {
+      const diff = timeDiff(from, to, { roundTo: 'hour' });
+      expect(diff.toString()).toBe('03:00:00.000');
+    });
+
+    it('should round to minute', () => {
+      const diff = timeDiff(from, to, { roundTo: 'minute' });
+      expect(diff.toString()).toBe('02:31:00.000');
+    });
+
+    it('should round to second', () => {
+      const diff = timeDiff(from, to, { roundTo: 'second' });
+      expect(diff.toString()).toBe('02:30:46.000');
+    });
+
+    it('should round to millisecond', () => {
+      const diff = timeDiff(from, to, { roundTo: 'millisecond' });
+      expect(diff.toString()).toBe('02:30:45.500');
+    });
+
+    it('should round to an arbitrary increment', () => {
+      const diff = timeDiff(from, to, { roundTo: SignedTime.fromMinutes(6) });
+      expect(diff.toString()).toBe('02:30:00.000');
+    });
+
+    it('should apply the rounding mode', () => {
+      expect(timeDiff(from, to, { roundTo: 'hour', roundingMode: 'floor' }).toString()).toBe(
+        '02:00:00.000',
+      );
+      expect(
+        timeDiff(from, to, { roundTo: SignedTime.fromMinutes(6), roundingMode: 'ceil' }).toString(),
+      ).toBe('02:36:00.000');
+      expect(timeDiff(to, from, { roundTo: 'minute', roundingMode: 'ceil' }).toString()).toBe(
+        '-02:30:00.000',
+      );
+    });
+
+    it('should not round when roundTo is not specified', () => {
+      const diff = timeDiff(from, to);
+      expect(diff.toString()).toBe('02:30:45.500');
+    });
+  });
+
+  describe('mode option', () => {
+    it('should calculate elapsed time across midnight by default', () => {
+      const diff = timeDiff('2024-01-01T22:00:00', '2024-01-02T06:00:00');
+      expect(diff.toString()).toBe('08:00:00.000');
+    });
+
+    it('should support timeOfDay mode with other options', () => {
+      const diff = timeDiff('2024-01-01T22:00:00', '2024-01-03T05:59:40', {
+        mode: 'timeOfDay',
+        roundTo: 'minute',
+      });
+      expect(diff.toString()).toBe('08:00:00.000');
+    });
+  });
+
+  describe('timeZone option', () => {
+    it('should apply the time zone and clock before rounding', () => {
+      const diff = timeDiff('2024-03-10T01:00:00', '2024-03-10T03:40:00', {
+        timeZone: 'America/New_York',
+        clock: 'wall',
+        roundTo: 'hour',
+      });
+      expect(diff.toString()).toBe('03:00:00.000');
+    });
+  });
+
+  describe('combined options', () => {
+    it('should handle both absolute and roundTo options', () => {
+      const from = new Date('2024-01-01T12:00:00');
+      const to = new Date('2024-01-01T10:30:45.500');
+      const diff = timeDiff(from, to, { absolute: true, roundTo: 'hour' });
+      expect(diff.toString()).toBe('01:00:00.000');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should handle invalid dates', () => {
+      expect(() => timeDiff('invalid', 'invalid')).toThrow('Invalid Date');
+    });
+
+    it('should handle undefined options', () => {
+      const from = new Date('2024-01-01T10:00:00');
+      const to = new Date('2024-01-01T12:30:00');
+      const diff = timeDiff(from, to, undefined);
+      expect(diff.toString()).toBe('02:30:00.000');
+    });
+  });
+});
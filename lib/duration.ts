@@ -0,0 +1,288 @@
+import { InvalidDateError } from './errors';
+import type { RoundingMode } from './rounding';
+import { SignedTime } from './SignedTime';
+import { assertTimeZone, getWallClock, parseInTimeZone, wallClockToEpoch } from './timeZone';
+
+/** Types that can be treated as dates (Date, string, number) */
+export type DateLike = Date | string | number;
+
+/**
+ * How the difference between two dates is measured
+ *
+ * - `elapsed`: True elapsed time between the two instants, including whole days
+ * - `timeOfDay`: Difference between the local times of day only, ignoring the date.
+ *   The result wraps around midnight, so it is always within `[00:00, 24:00)`
+ *   (e.g. 23:00 → 01:00 yields +2 hours)
+ */
+export type DurationMode = 'elapsed' | 'timeOfDay';
+
+/**
+ * Which clock elapsed time is measured on
+ *
+ * - `absolute`: Physical time between the two instants. A day containing a daylight saving
+ *   time transition is 23 or 25 hours long
+ * - `wall`: Difference between the wall-clock readings in the time zone, ignoring changes
+ *   in the UTC offset (e.g. 01:00 → 04:00 on the day clocks spring forward yields 3 hours)
+ */
+export type DurationClock = 'absolute' | 'wall';
+
+/** Options for {@link duration} */
+export interface DurationOptions {
+  /** How the difference is measured (default: 'elapsed') */
+  mode?: DurationMode;
+  /**
+   * IANA time zone name or 'UTC' in which dates are evaluated (default: local time zone of
+   * the runtime). Date-time strings without a UTC offset are read as wall-clock time in it.
+   */
+  timeZone?: string;
+  /** Which clock elapsed time is measured on (default: 'absolute') */
+  clock?: DurationClock;
+}
+
+/** Rounding unit, or an arbitrary rounding increment */
+export type RoundTo = 'hour' | 'minute' | 'second' | 'millisecond' | SignedTime;
+
+/** Options for adjusting the sign and precision of a calculated time difference */
+export interface DiffOptions {
+  /** If true, converts the result to absolute value */
+  absolute?: boolean;
+  /** Rounding unit, or an arbitrary rounding increment */
+  roundTo?: RoundTo;
+  /** Rounding mode (default: 'halfAwayFromZero') */
+  roundingMode?: RoundingMode;
+}
+
+/** Options for {@link timeDiff} */
+export interface TimeDiffOptions extends DurationOptions, DiffOptions {}
+
+/** Milliseconds in a day */
+const MILLISECONDS_PER_DAY = 86400000;
+
+/**
+ * Converts a DateLike value to a valid Date object
+ *
+ * @param {DateLike} value - Value to convert
+ * @param {string} [timeZone] - Time zone in which date-time strings without a UTC offset
+ *   are read (default: local time zone of the runtime)
+ * @param {string} argument - Name of the argument reported when the value is invalid (default: 'date')
+ * @returns {Date} Date object
+ * @throws {InvalidDateError} When the value is not a valid date
+ * @throws {RangeError} When the time zone is invalid
+ */
+export const parseDateLike = (
+  value: DateLike,
+  timeZone?: string,
+  argument: string = 'date',
+): Date => {
+  // null や undefined のチェックを追加
+  if (value == null) {
+    throw new InvalidDateError(argument, value);
+  }
+
+  const date =
+    (typeof value === 'string' && timeZone !== undefined
+      ? parseInTimeZone(value, timeZone)
+      : undefined) ?? new Date(value);
+
+  // 無効な日付のチェック
+  if (isNaN(date.getTime())) {
+    throw new InvalidDateError(argument, value);
+  }
+
+  return date;
+};
+
+/**
+ * Gets the wall-clock time of day of an instant
+ *
+ * @param {Date} date - Instant
+ * @param {string} [timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+ * @returns {SignedTime} Time since midnight
+ */
+const timeOfDay = (date: Date, timeZone?: string): SignedTime => {
+  const { hour, minute, second, millisecond } = getWallClock(date, timeZone);
+  return new SignedTime(hour, minute, second, millisecond);
+};
+
+/**
+ * Calculates the time difference between two dates
+ *
+ * By default the true elapsed time between the two instants is returned, so spans
+ * across midnight and over multiple days are preserved. Use `mode: 'timeOfDay'` to
+ * compare only the local times of day.
+ *
+ * Dates are evaluated in the local time zone of the runtime unless `timeZone` is given,
+ * which makes results independent of the machine the code runs on. Across a daylight
+ * saving time transition, `clock: 'wall'` measures the difference between the wall-clock
+ * readings instead of the physical elapsed time.
+ *
+ * @param {DateLike} from - Start date/time
+ * @param {DateLike} to - End date/time
+ * @param {DurationOptions} options - Calculation options
+ * @param {DurationMode} [options.mode] - How the difference is measured (default: 'elapsed')
+ * @param {string} [options.timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+ * @param {DurationClock} [options.clock] - Which clock elapsed time is measured on (default: 'absolute')
+ * @returns {SignedTime} SignedTime instance representing the time difference
+ * @throws {InvalidDateError} When invalid dates are specified
+ * @throws {RangeError} When the time zone is invalid
+ *
+ * @example
+ * ```typescript
+ * const diff = duration(
+ *   new Date('2024-01-01T10:00:00'),
+ *   new Date('2024-01-01T12:30:00')
+ * );
+ * console.log(diff.toString()); // "02:30:00.000"
+ *
+ * // Spans across midnight
+ * duration('2024-01-01T23:00:00', '2024-01-02T01:00:00').toString(); // "02:00:00.000"
+ *
+ * // Time of day only, wrapping around midnight
+ * duration('2024-01-01T23:00:00', '2024-01-05T01:00:00', { mode: 'timeOfDay' }).toString(); // "02:00:00.000"
+ *
+ * // Wall-clock times in New York across the start of daylight saving time
+ * duration('2024-03-10T01:00:00', '2024-03-10T04:00:00', { timeZone: 'America/New_York' }).toString(); // "02:00:00.000"
+ * duration('2024-03-10T01:00:00', '2024-03-10T04:00:00', {
+ *   timeZone: 'America/New_York',
+ *   clock: 'wall',
+ * }).toString(); // "03:00:00.000"
+ * ```
+ */
+export const duration = (
+  from: DateLike,
+  to: DateLike,
+  options: DurationOptions = {},
+): SignedTime => {
+  const { timeZone } = options;
+  if (timeZone !== undefined) {
+    assertTimeZone(timeZone);
+  }
+
+  const fromDate = parseDateLike(from, timeZone, 'from');
+  const toDate = parseDateLike(to, timeZone, 'to');
+
+  if (options.mode === 'timeOfDay') {
+    const diff = timeOfDay(toDate, timeZone).subtract(timeOfDay(fromDate, timeZone));
+    return diff.isNegative() ? diff.add(SignedTime.fromMilliseconds(MILLISECONDS_PER_DAY)) : diff;
+  }
+
+  if (options.clock === 'wall') {
+    return SignedTime.fromMilliseconds(
+      wallClockToEpoch(getWallClock(toDate, timeZone)) -
+        wallClockToEpoch(getWallClock(fromDate, timeZone)),
+    );
+  }
+
+  return SignedTime.fromMilliseconds(toDate.getTime() - fromDate.getTime());
+};
+
+/**
+ * Calculates the true elapsed time between two instants
+ *
+ * Shorthand for `duration(from, to, { mode: 'elapsed' })`.
+ *
+ * @param {DateLike} from - Start date/time
+ * @param {DateLike} to - End date/time
+ * @returns {SignedTime} SignedTime instance representing the elapsed time
+ * @throws {InvalidDateError} When invalid dates are specified
+ *
+ * @example
+ * ```typescript
+ * const diff = elapsed('2024-01-01T22:00:00', '2024-01-03T01:30:00');
+ * console.log(diff.toString()); // "27:30:00.000"
+ * ```
+ */
+export const elapsed = (from: DateLike, to: DateLike): SignedTime =>
+  duration(from, to, { mode: 'elapsed' });
+
+/**
+ * Calculates the time difference between two dates and processes it based on options
+ *
+ * @param {DateLike} from - Start date/time
+ * @param {DateLike} to - End date/time
+ * @param {TimeDiffOptions} options - Calculation options
+ * @param {DurationMode} [options.mode] - How the difference is measured (default: 'elapsed')
+ * @param {string} [options.timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+ * @param {DurationClock} [options.clock] - Which clock elapsed time is measured on (default: 'absolute')
+ * @param {boolean} [options.absolute] - If true, converts the result to absolute value (default: false)
+ * @param {RoundTo} [options.roundTo] - Rounding unit or increment
+ * @param {RoundingMode} [options.roundingMode] - Rounding mode (default: 'halfAwayFromZero')
+ * @returns {SignedTime} SignedTime instance representing the processed time difference
+ * @throws {InvalidDateError} When invalid dates are specified
+ * @throws {RangeError} When the time zone is invalid
+ *
+ * @example
+ * ```typescript
+ * // Basic usage
+ * const diff = timeDiff(
+ *   new Date('2024-01-01T10:00:00'),
+ *   new Date('2024-01-01T12:30:00')
+ * );
+ *
+ * // Get absolute value
+ * const absDiff = timeDiff(
+ *   new Date('2024-01-01T12:00:00'),
+ *   new Date('2024-01-01T10:00:00'),
+ *   { absolute: true }
+ * );
+ *
+ * // Round to hours
+ * const roundedDiff = timeDiff(
+ *   new Date('2024-01-01T10:00:00'),
+ *   new Date('2024-01-01T12:30:00'),
+ *   { roundTo: 'hour' }
+ * );
+ *
+ * // Bill in tenths of an hour, always rounding up
+ * const billed = timeDiff(
+ *   new Date('2024-01-01T10:00:00'),
+ *   new Date('2024-01-01T10:31:00'),
+ *   { roundTo: SignedTime.fromMinutes(6), roundingMode: 'ceil' }
+ * ); // 36 minutes
+ *
+ * // Compare times of day only (night shift crossing midnight)
+ * const shift = timeDiff(
+ *   new Date('2024-01-01T22:00:00'),
+ *   new Date('2024-01-02T06:00:00'),
+ *   { mode: 'timeOfDay' }
+ * ); // 8 hours
+ *
+ * // Shift log recorded in Tokyo wall-clock time, independent of the server's time zone
+ * const logged = timeDiff('2024-01-01T22:00:00', '2024-01-02T06:00:00', {
+ *   timeZone: 'Asia/Tokyo',
+ * }); // 8 hours
+ * ```
+ */
+export function timeDiff(from: DateLike, to: DateLike, options: TimeDiffOptions = {}): SignedTime {
+  return applyDiffOptions(duration(from, to, options), options);
+}
+
+/**
+ * Adjusts a calculated time difference with the absolute and rounding options
+ *
+ * The absolute value is taken before rounding, so a negative difference rounds the same
+ * way as its positive counterpart when `absolute` is set.
+ *
+ * @param {SignedTime} diff - Time difference
+ * @param {DiffOptions} options - Adjustment options
+ * @returns {SignedTime} Adjusted time difference
+ */
+export const applyDiffOptions = (diff: SignedTime, options: DiffOptions): SignedTime => {
+  const value = options.absolute ? diff.abs() : diff;
+
+  const mode = options.roundingMode ?? 'halfAwayFromZero';
+  switch (options.roundTo) {
+    case undefined:
+      return value;
+    case 'hour':
+      return value.roundToHour(mode);
+    case 'minute':
+      return value.roundToMinute(mode);
+    case 'second':
+      return value.roundToSecond(mode);
+    case 'millisecond':
+      return value.round(SignedTime.fromMilliseconds(1), mode);
+    default:
+      return value.round(options.roundTo, mode);
+  }
+};
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { DurationFormat } from './durationFormat';
+import type { DurationRecord } from './durationFormat';
+import { InvalidDurationError } from './errors';
+import { SignedTime } from './SignedTime';
+
+describe('DurationFormat', () => {
+  const intl = Intl as unknown as { DurationFormat?: unknown };
+  const original = intl.DurationFormat;
+  const time = new SignedTime(1, 30, 5, 250);
+
+  // Test the built-in implementation regardless of the runtime
+  beforeEach(() => {
+    intl.DurationFormat = undefined;
+  });
+
+  afterEach(() => {
+    intl.DurationFormat = original;
+  });
+
+  describe('styles', () => {
+    it('should format with unit names', () => {
+      expect(new DurationFormat('en', { style: 'long' }).format(time)).toBe(
+        '1 hour, 30 minutes, 5 seconds, 250 milliseconds',
+      );
+      expect(new DurationFormat('en').format(time)).toBe('1 hr, 30 min, 5 sec, 250 ms');
+      expect(new DurationFormat('en', { style: 'narrow' }).format(time)).toBe('1h 30m 5s 250ms');
+    });
+
+    it('should format in the digital style', () => {
+      const format = new DurationFormat('en', { style: 'digital' });
+      expect(format.format(time)).toBe('1:30:05.25');
+      expect(format.format(SignedTime.fromMinutes(5))).toBe('0:05:00');
+      expect(format.format(SignedTime.fromHours(50))).toBe('2 days, 2:00:00');
+    });
+
+    it('should use the locale', () => {
+      expect(new DurationFormat('ja', { style: 'long' }).format(new SignedTime(1, 30))).toBe(
+        '1 時間 30 分',
+      );
+    });
+
+    it('should omit zero units unless displayed always', () => {
+      expect(new DurationFormat('en').format(SignedTime.fromHours(1))).toBe('1 hr');
+      expect(new DurationFormat('en').format(new SignedTime())).toBe('');
+      expect(new DurationFormat('en', { secondsDisplay: 'always' }).format(new SignedTime())).toBe(
+        '0 sec',
+      );
+    });
+  });
+
+  describe('unit options', () => {
+    it('should apply per-unit styles', () => {
+      expect(new DurationFormat('en', { hours: 'long', minutes: 'narrow' }).format(time)).toBe(
+        '1 hour, 30m, 5 sec, 250 ms',
+      );
+    });
+
+    it('should output numeric sub-second units as fractions', () => {
+      expect(new DurationFormat('en', { milliseconds: 'numeric' }).format(time)).toBe(
+        '1 hr, 30 min, 5.25 sec',
+      );
+      expect(
+        new DurationFormat('en', { style: 'digital' }).format(
+          SignedTime.fromNanoseconds(1000000001n),
+        ),
+      ).toBe('0:00:01.000000001');
+    });
+
+    it('should apply fractionalDigits with truncation', () => {
+      const format = new DurationFormat('en', { style: 'digital', fractionalDigits: 2 });
+      expect(format.format(SignedTime.fromMilliseconds(1999))).toBe('0:00:01.99');
+      expect(format.format(SignedTime.fromSeconds(90))).toBe('0:01:30.00');
+      expect(new DurationFormat('en', { style: 'digital', fractionalDigits: 0 }).format(time)).toBe(
+        '1:30:05',
+      );
+    });
+
+    it('should pad units after a numeric unit and fill gaps', () => {
+      expect(new DurationFormat('en', { hours: 'numeric' }).format({ hours: 1, seconds: 5 })).toBe(
+        '1:00:05',
+      );
+      expect(new DurationFormat('en', { hours: '2-digit' }).format({ hours: 1, minutes: 5 })).toBe(
+        '01:05:00',
+      );
+    });
+
+    it('should reject invalid options', () => {
+      // @ts-expect-error: Testing invalid option
+      expect(() => new DurationFormat('en', { style: 'full' })).toThrow(RangeError);
+      // @ts-expect-error: Testing invalid option
+      expect(() => new DurationFormat('en', { days: 'numeric' })).toThrow(RangeError);
+      expect(() => new DurationFormat('en', { fractionalDigits: 10 })).toThrow(RangeError);
+      expect(
+        () => new DurationFormat('en', { milliseconds: 'numeric', millisecondsDisplay: 'always' }),
+      ).toThrow(RangeError);
+      expect(() => new DurationFormat('en', { hours: 'numeric', minutes: 'long' })).toThrow(
+        RangeError,
+      );
+      expect(
+        () => new DurationFormat('en', { milliseconds: 'numeric', microseconds: 'long' }),
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe('negative durations', () => {
+    it('should show the sign once on the first unit', () => {
+      expect(new DurationFormat('en').format(time.negate())).toBe('-1 hr, 30 min, 5 sec, 250 ms');
+      expect(new DurationFormat('en', { style: 'digital' }).format(time.negate())).toBe(
+        '-1:30:05.25',
+      );
+    });
+
+    it('should show the sign on a leading zero', () => {
+      expect(
+        new DurationFormat('en', { style: 'digital' }).format(SignedTime.fromMinutes(-30)),
+      ).toBe('-0:30:00');
+    });
+
+    it('should format negative records', () => {
+      expect(new DurationFormat('en').format({ hours: -1, minutes: -30 })).toBe('-1 hr, 30 min');
+    });
+  });
+
+  describe('records', () => {
+    it('should format fields as they are', () => {
+      expect(new DurationFormat('en').format({ minutes: 90 })).toBe('90 min');
+      expect(new DurationFormat('en', { style: 'digital' }).format({ hours: 26 })).toBe('26:00:00');
+    });
+
+    it('should reject non-integer fields and mixed signs', () => {
+      expect(() => new DurationFormat('en').format({ hours: 1.5 })).toThrow(InvalidDurationError);
+      expect(() => new DurationFormat('en').format({ hours: 1, minutes: -30 })).toThrow(
+        InvalidDurationError,
+      );
+    });
+  });
+
+  describe('formatToParts', () => {
+    it('should split the output into parts with units', () => {
+      const parts = new DurationFormat('en', { style: 'narrow' }).formatToParts(
+        new SignedTime(-1, -30),
+      );
+      expect(parts).toEqual([
+        { type: 'minusSign', value: '-', unit: 'hour' },
+        { type: 'integer', value: '1', unit: 'hour' },
+        { type: 'unit', value: 'h', unit: 'hour' },
+        { type: 'literal', value: ' ' },
+        { type: 'integer', value: '30', unit: 'minute' },
+        { type: 'unit', value: 'm', unit: 'minute' },
+      ]);
+    });
+
+    it('should split the digital style', () => {
+      const parts = new DurationFormat('en', { style: 'digital' }).formatToParts({ minutes: 1 });
+      expect(parts.map((part) => part.value).join('')).toBe('0:01:00');
+      expect(parts[1]).toEqual({ type: 'literal', value: ':' });
+    });
+  });
+
+  describe('resolvedOptions', () => {
+    it('should resolve the options', () => {
+      const options = new DurationFormat('en', {
+        style: 'digital',
+        fractionalDigits: 3,
+      }).resolvedOptions();
+      expect(options).toMatchObject({
+        locale: 'en',
+        numberingSystem: 'latn',
+        style: 'digital',
+        days: 'short',
+        daysDisplay: 'auto',
+        hours: 'numeric',
+        hoursDisplay: 'always',
+        minutes: '2-digit',
+        seconds: '2-digit',
+        milliseconds: 'numeric',
+        millisecondsDisplay: 'auto',
+        fractionalDigits: 3,
+      });
+    });
+  });
+
+  describe('with native Intl.DurationFormat', () => {
+    it('should delegate to the native implementation', () => {
+      const calls: unknown[][] = [];
+      intl.DurationFormat = class {
+        constructor(...args: unknown[]) {
+          calls.push(args);
+        }
+
+        format(duration: DurationRecord): string {
+          return `native ${JSON.stringify(duration)}`;
+        }
+      };
+
+      const format = new DurationFormat('de', { style: 'long' });
+      expect(calls).toEqual([['de', { style: 'long' }]]);
+      expect(format.format(new SignedTime(-1, -30))).toBe(
+        'native {"days":0,"hours":-1,"minutes":-30,"seconds":0,"milliseconds":0,"microseconds":0,"nanoseconds":0}',
+      );
+      expect(format.format({ minutes: 5 })).toBe('native {"minutes":5}');
+    });
+  });
+
+  describe('SignedTime#toLocaleString', () => {
+    it('should format with DurationFormat', () => {
+      expect(new SignedTime(1, 30).toLocaleString('en', { style: 'long' })).toBe(
+        '1 hour, 30 minutes',
+      );
+      expect(new SignedTime(1, 30).toLocaleString('en', { style: 'digital' })).toBe('1:30:00');
+    });
+  });
+});
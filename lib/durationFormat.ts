@@ -0,0 +1,542 @@
+import { InvalidDurationError } from './errors';
+import type { SignedTime } from './SignedTime';
+
+/** Base style of a {@link DurationFormat} */
+export type DurationFormatStyle = 'long' | 'short' | 'narrow' | 'digital';
+
+/** Units that a {@link DurationFormat} outputs, from largest to smallest */
+export type DurationFormatUnit =
+  | 'days'
+  | 'hours'
+  | 'minutes'
+  | 'seconds'
+  | 'milliseconds'
+  | 'microseconds'
+  | 'nanoseconds';
+
+/** Duration as separate unit fields, as accepted by `Intl.DurationFormat` */
+export type DurationRecord = Partial<Record<DurationFormatUnit, number>>;
+
+/** Whether a unit is output when it is zero */
+export type DurationUnitDisplay = 'auto' | 'always';
+
+/** Options of a {@link DurationFormat}, mirroring those of `Intl.DurationFormat` */
+export interface DurationFormatOptions {
+  /** Locale matching algorithm (default: 'best fit') */
+  localeMatcher?: 'lookup' | 'best fit';
+  /** Numbering system (e.g. 'arab') */
+  numberingSystem?: string;
+  /** Base style of the units (default: 'short') */
+  style?: DurationFormatStyle;
+  days?: 'long' | 'short' | 'narrow';
+  daysDisplay?: DurationUnitDisplay;
+  hours?: 'long' | 'short' | 'narrow' | 'numeric' | '2-digit';
+  hoursDisplay?: DurationUnitDisplay;
+  minutes?: 'long' | 'short' | 'narrow' | 'numeric' | '2-digit';
+  minutesDisplay?: DurationUnitDisplay;
+  seconds?: 'long' | 'short' | 'narrow' | 'numeric' | '2-digit';
+  secondsDisplay?: DurationUnitDisplay;
+  milliseconds?: 'long' | 'short' | 'narrow' | 'numeric';
+  millisecondsDisplay?: DurationUnitDisplay;
+  microseconds?: 'long' | 'short' | 'narrow' | 'numeric';
+  microsecondsDisplay?: DurationUnitDisplay;
+  nanoseconds?: 'long' | 'short' | 'narrow' | 'numeric';
+  nanosecondsDisplay?: DurationUnitDisplay;
+  /** Number of fractional digits of a unit followed by numeric sub-second units (0-9) */
+  fractionalDigits?: number;
+}
+
+/** Options resolved from the locale and the {@link DurationFormatOptions} */
+export type ResolvedDurationFormatOptions = Required<
+  Omit<DurationFormatOptions, 'localeMatcher' | 'fractionalDigits'>
+> & {
+  /** Resolved locale */
+  locale: string;
+  fractionalDigits?: number;
+};
+
+/** Part of a formatted duration, as returned by `Intl.DurationFormat#formatToParts` */
+export interface DurationFormatPart {
+  /** Part type (e.g. 'integer', 'literal', 'unit') */
+  type: string;
+  /** Text of the part */
+  value: string;
+  /** Singular unit of the number the part belongs to (e.g. 'hour') */
+  unit?: string;
+}
+
+/** Methods of a native `Intl.DurationFormat` instance */
+interface NativeDurationFormat {
+  format(duration: DurationRecord): string;
+  formatToParts(duration: DurationRecord): DurationFormatPart[];
+  resolvedOptions(): ResolvedDurationFormatOptions;
+}
+
+/** Constructor of the native `Intl.DurationFormat` */
+type NativeDurationFormatConstructor = new (
+  locales?: string | readonly string[],
+  options?: DurationFormatOptions,
+) => NativeDurationFormat;
+
+/** Constructor of `Intl.ListFormat` (not in the ES2020 type definitions) */
+type ListFormatConstructor = new (
+  locales: string,
+  options: { type: 'unit'; style: 'long' | 'short' | 'narrow' },
+) => { formatToParts(list: string[]): { type: 'element' | 'literal'; value: string }[] };
+
+/** Decimal number string, which `Intl.NumberFormat` formats exactly since ES2023 */
+type DecimalString = `${number}`;
+
+/** `Intl.NumberFormat#formatToParts` accepting decimal strings (not in the ES2020 type definitions) */
+interface DecimalNumberFormat {
+  formatToParts(value: number | DecimalString): Intl.NumberFormatPart[];
+}
+
+/** Resolved style of a unit; numeric sub-second units become fractions of the previous unit */
+type UnitStyle = 'long' | 'short' | 'narrow' | 'numeric' | '2-digit' | 'fractional';
+
+/** Units with the styles they accept, and their style under the 'digital' base style */
+const UNITS: readonly {
+  name: DurationFormatUnit;
+  /** Singular unit name of `Intl.NumberFormat` */
+  unit: string;
+  styles: readonly UnitStyle[];
+  digitalBase: UnitStyle;
+  /** Length in nanoseconds */
+  nanoseconds: bigint;
+}[] = [
+  {
+    name: 'days',
+    unit: 'day',
+    styles: ['long', 'short', 'narrow'],
+    digitalBase: 'short',
+    nanoseconds: 86400000000000n,
+  },
+  {
+    name: 'hours',
+    unit: 'hour',
+    styles: ['long', 'short', 'narrow', 'numeric', '2-digit'],
+    digitalBase: 'numeric',
+    nanoseconds: 3600000000000n,
+  },
+  {
+    name: 'minutes',
+    unit: 'minute',
+    styles: ['long', 'short', 'narrow', 'numeric', '2-digit'],
+    digitalBase: 'numeric',
+    nanoseconds: 60000000000n,
+  },
+  {
+    name: 'seconds',
+    unit: 'second',
+    styles: ['long', 'short', 'narrow', 'numeric', '2-digit'],
+    digitalBase: 'numeric',
+    nanoseconds: 1000000000n,
+  },
+  {
+    name: 'milliseconds',
+    unit: 'millisecond',
+    styles: ['long', 'short', 'narrow', 'numeric'],
+    digitalBase: 'numeric',
+    nanoseconds: 1000000n,
+  },
+  {
+    name: 'microseconds',
+    unit: 'microsecond',
+    styles: ['long', 'short', 'narrow', 'numeric'],
+    digitalBase: 'numeric',
+    nanoseconds: 1000n,
+  },
+  {
+    name: 'nanoseconds',
+    unit: 'nanosecond',
+    styles: ['long', 'short', 'narrow', 'numeric'],
+    digitalBase: 'numeric',
+    nanoseconds: 1n,
+  },
+];
+
+/** Maximum number of fractional digits (nanosecond precision) */
+const MAX_FRACTIONAL_DIGITS = 9;
+
+/**
+ * Gets the native `Intl.DurationFormat` when the runtime provides it
+ *
+ * @returns {NativeDurationFormatConstructor | undefined} Constructor, or undefined when unavailable
+ */
+const getNativeDurationFormat = (): NativeDurationFormatConstructor | undefined => {
+  const { DurationFormat } = Intl as unknown as { DurationFormat?: unknown };
+  return typeof DurationFormat === 'function'
+    ? (DurationFormat as NativeDurationFormatConstructor)
+    : undefined;
+};
+
+/**
+ * Checks if a style outputs the unit as a number without a unit name
+ *
+ * @param {UnitStyle} style - Resolved style
+ * @returns {boolean} True for 'numeric', '2-digit' and 'fractional'
+ */
+const isNumericStyle = (style: UnitStyle): boolean =>
+  style === 'numeric' || style === '2-digit' || style === 'fractional';
+
+/**
+ * Splits a duration into absolute unit values and a sign
+ *
+ * A SignedTime is balanced into days through nanoseconds. The fields of a record are used
+ * as they are, as with `Intl.DurationFormat`.
+ *
+ * @param {SignedTime | DurationRecord} duration - Duration to split
+ * @returns {Object} Absolute values in the order of {@link UNITS}, and whether the duration is negative
+ * @throws {InvalidDurationError} When a field is not an integer, or the fields have mixed signs
+ */
+const toUnitValues = (
+  duration: SignedTime | DurationRecord,
+): { values: bigint[]; negative: boolean } => {
+  if (typeof (duration as SignedTime).totalNanoseconds === 'bigint') {
+    const total = (duration as SignedTime).totalNanoseconds;
+    let remaining = total < 0n ? -total : total;
+    const values = UNITS.map(({ nanoseconds }) => {
+      const value = remaining / nanoseconds;
+      remaining %= nanoseconds;
+      return value;
+    });
+    return { values, negative: total < 0n };
+  }
+
+  const record = duration as DurationRecord;
+  const fields = UNITS.map(({ name }) => record[name] ?? 0);
+  for (const [index, value] of fields.entries()) {
+    if (!Number.isInteger(value)) {
+      throw new InvalidDurationError((UNITS[index] as (typeof UNITS)[number]).name, value);
+    }
+  }
+  if (fields.some((value) => value < 0) && fields.some((value) => value > 0)) {
+    throw new InvalidDurationError('duration', duration);
+  }
+  return {
+    values: fields.map((value) => BigInt(Math.abs(value))),
+    negative: fields.some((value) => value < 0),
+  };
+};
+
+/**
+ * Class formatting durations with locale-aware unit names, mirroring `Intl.DurationFormat`
+ *
+ * Uses the native `Intl.DurationFormat` when the runtime provides it, and otherwise a
+ * built-in implementation of the same algorithm based on `Intl.NumberFormat` and
+ * `Intl.ListFormat`. A SignedTime is balanced into days, hours, minutes, seconds and
+ * sub-second units before formatting.
+ *
+ * As with `Intl.DurationFormat`, units that are zero are omitted unless their display is
+ * `'always'`, so a zero duration formats as an empty string in the non-digital styles.
+ * The sign of a negative duration is shown once, on the first number.
+ *
+ * @example
+ * ```typescript
+ * const time = new SignedTime(1, 30, 5);
+ *
+ * new DurationFormat('en', { style: 'long' }).format(time); // "1 hour, 30 minutes, 5 seconds"
+ * new DurationFormat('en', { style: 'narrow' }).format(time); // "1h 30m 5s"
+ * new DurationFormat('en', { style: 'digital' }).format(time.negate()); // "-1:30:05"
+ * new DurationFormat('ja', { style: 'short' }).format(time); // "1 時間 30 分 5 秒"
+ * ```
+ */
+export class DurationFormat {
+  /** Native formatter, when the runtime provides one */
+  #native: NativeDurationFormat | undefined;
+
+  /** Options resolved for the built-in implementation */
+  #resolved: ResolvedDurationFormatOptions;
+
+  /** Resolved styles and displays in the order of {@link UNITS} */
+  #units: { style: UnitStyle; display: DurationUnitDisplay }[] = [];
+
+  /**
+   * Creates a DurationFormat instance
+   *
+   * @param {string | readonly string[]} [locales] - BCP 47 language tag(s) (default: runtime locale)
+   * @param {DurationFormatOptions} options - Formatting options
+   * @throws {RangeError} When an option is invalid, or the unit styles are inconsistent
+   *   (e.g. a unit name style after a numeric unit)
+   */
+  constructor(locales?: string | readonly string[], options: DurationFormatOptions = {}) {
+    const Native = getNativeDurationFormat();
+    this.#native = Native ? new Native(locales, options) : undefined;
+
+    const numberFormat = new Intl.NumberFormat(locales as string | string[] | undefined, {
+      ...(options.localeMatcher && { localeMatcher: options.localeMatcher }),
+      ...(options.numberingSystem && { numberingSystem: options.numberingSystem }),
+    }).resolvedOptions();
+
+    const style = options.style ?? 'short';
+    if (!['long', 'short', 'narrow', 'digital'].includes(style)) {
+      throw new RangeError(`Invalid style: ${style}`);
+    }
+
+    const { fractionalDigits } = options;
+    if (
+      fractionalDigits !== undefined &&
+      !(Number.isInteger(fractionalDigits) && fractionalDigits >= 0 && fractionalDigits <= 9)
+    ) {
+      throw new RangeError(
+        `fractionalDigits must be an integer between 0 and 9: ${fractionalDigits}`,
+      );
+    }
+
+    const resolved: Record<string, unknown> = {
+      locale: numberFormat.locale,
+      numberingSystem: numberFormat.numberingSystem,
+      style,
+    };
+
+    let previous: UnitStyle | undefined;
+    for (const { name, styles, digitalBase } of UNITS) {
+      const isClockUnit = name === 'hours' || name === 'minutes' || name === 'seconds';
+      const isSubsecond = !isClockUnit && name !== 'days';
+
+      let unitStyle = options[name] as UnitStyle | undefined;
+      if (unitStyle !== undefined && !styles.includes(unitStyle)) {
+        throw new RangeError(`Invalid ${name} style: ${unitStyle}`);
+      }
+
+      let displayDefault: DurationUnitDisplay = 'always';
+      if (unitStyle === undefined) {
+        if (style === 'digital') {
+          displayDefault = isClockUnit ? 'always' : 'auto';
+          unitStyle = digitalBase;
+        } else if (previous !== undefined && isNumericStyle(previous)) {
+          displayDefault = name === 'minutes' || name === 'seconds' ? 'always' : 'auto';
+          unitStyle = 'numeric';
+        } else {
+          displayDefault = 'auto';
+          unitStyle = style;
+        }
+      }
+      if (unitStyle === 'numeric' && isSubsecond) {
+        unitStyle = 'fractional';
+        displayDefault = 'auto';
+      }
+
+      const display = options[`${name}Display`] ?? displayDefault;
+      if (display !== 'auto' && display !== 'always') {
+        throw new RangeError(`Invalid ${name}Display: ${display}`);
+      }
+      if (display === 'always' && unitStyle === 'fractional') {
+        throw new RangeError(`${name}Display must not be 'always' when ${name} is numeric`);
+      }
+      if (previous === 'fractional' && unitStyle !== 'fractional') {
+        throw new RangeError(`${name} must be numeric after a numeric sub-second unit`);
+      }
+      if (previous === 'numeric' || previous === '2-digit') {
+        if (!isNumericStyle(unitStyle)) {
+          throw new RangeError(`${name} must be numeric or 2-digit after a numeric unit`);
+        }
+        if (name === 'minutes' || name === 'seconds') {
+          unitStyle = '2-digit';
+        }
+      }
+
+      this.#units.push({ style: unitStyle, display });
+      resolved[name] = unitStyle === 'fractional' ? 'numeric' : unitStyle;
+      resolved[`${name}Display`] = display;
+      previous = unitStyle;
+    }
+
+    if (fractionalDigits !== undefined) {
+      resolved['fractionalDigits'] = fractionalDigits;
+    }
+    this.#resolved = resolved as ResolvedDurationFormatOptions;
+  }
+
+  /**
+   * Gets the locales that are supported without falling back to the default locale
+   *
+   * @param {string | readonly string[]} locales - BCP 47 language tag(s)
+   * @returns {string[]} Supported locales
+   */
+  static supportedLocalesOf(locales: string | readonly string[]): string[] {
+    return Intl.NumberFormat.supportedLocalesOf(locales as string | string[]);
+  }
+
+  /**
+   * Formats a duration
+   *
+   * @param {SignedTime | DurationRecord} duration - SignedTime, or unit fields such as `{ hours: 1, minutes: 30 }`
+   * @returns {string} Formatted duration
+   * @throws {InvalidDurationError} When a field of the record is not an integer, or the
+   *   fields have mixed signs
+   *
+   * @example
+   * ```typescript
+   * const format = new DurationFormat('en', { style: 'digital', fractionalDigits: 3 });
+   * format.format(SignedTime.fromSeconds(90.5)); // "0:01:30.500"
+   * format.format({ hours: 26 }); // "26:00:00.000"
+   * ```
+   */
+  format(duration: SignedTime | DurationRecord): string {
+    if (this.#native) {
+      return this.#native.format(this.#toRecord(duration));
+    }
+    return this.formatToParts(duration)
+      .map((part) => part.value)
+      .join('');
+  }
+
+  /**
+   * Formats a duration into parts, such as the numbers, unit names and separators
+   *
+   * @param {SignedTime | DurationRecord} duration - SignedTime, or unit fields
+   * @returns {DurationFormatPart[]} Parts whose values concatenate to the formatted duration
+   * @throws {InvalidDurationError} When a field of the record is not an integer, or the
+   *   fields have mixed signs
+   */
+  formatToParts(duration: SignedTime | DurationRecord): DurationFormatPart[] {
+    if (this.#native) {
+      return this.#native.formatToParts(this.#toRecord(duration));
+    }
+
+    const { values, negative } = toUnitValues(duration);
+    const elements: DurationFormatPart[][] = [];
+    const clock: { index: number; integer: bigint; fraction: string; shown: boolean }[] = [];
+    let signPending = negative;
+
+    const formatNumber = (
+      index: number,
+      integer: bigint,
+      fraction: string,
+      options: Intl.NumberFormatOptions,
+    ): DurationFormatPart[] => {
+      const sign = signPending ? '-' : '';
+      signPending = false;
+      const numberFormat = new Intl.NumberFormat(this.#resolved.locale, {
+        numberingSystem: this.#resolved.numberingSystem,
+        minimumFractionDigits: fraction.length,
+        maximumFractionDigits: fraction.length,
+        ...options,
+      });
+      // Pass a decimal string rather than a number: with nanoseconds, values such as
+      // 9007199.254740993 seconds need more digits than a number can hold exactly.
+      // Runtimes without string support (before ES2023) convert it to a number instead
+      const value = `${sign}${integer}${fraction && `.${fraction}`}` as DecimalString;
+      const unit = (UNITS[index] as (typeof UNITS)[number]).unit;
+      return (numberFormat as DecimalNumberFormat)
+        .formatToParts(value)
+        .map((part) => ({ ...part, unit }));
+    };
+
+    for (const [index, { style, display }] of this.#units.entries()) {
+      if (style === 'fractional') {
+        continue;
+      }
+
+      // Numeric sub-second units that follow are output as the fraction of this unit
+      let scaled = values[index] as bigint;
+      let fractionLength = 0;
+      while (this.#units[index + fractionLength / 3 + 1]?.style === 'fractional') {
+        scaled = scaled * 1000n + (values[index + fractionLength / 3 + 1] as bigint);
+        fractionLength += 3;
+      }
+      const divisor = 10n ** BigInt(fractionLength);
+      const integer = scaled / divisor;
+      let fraction =
+        fractionLength > 0 ? (scaled % divisor).toString().padStart(fractionLength, '0') : '';
+      const digits = this.#resolved.fractionalDigits;
+      fraction =
+        digits === undefined
+          ? fraction.slice(0, MAX_FRACTIONAL_DIGITS).replace(/0+$/, '')
+          : fractionLength > 0
+            ? fraction.padEnd(digits, '0').slice(0, digits)
+            : '';
+      const isZero = integer === 0n && !/[1-9]/.test(fraction);
+
+      if (isNumericStyle(style)) {
+        clock.push({ index, integer, fraction, shown: !isZero || display === 'always' });
+        continue;
+      }
+      if (isZero && display === 'auto') {
+        continue;
+      }
+      elements.push(
+        formatNumber(index, integer, fraction, {
+          style: 'unit',
+          unit: (UNITS[index] as (typeof UNITS)[number]).unit,
+          unitDisplay: style as 'long' | 'short' | 'narrow',
+        }),
+      );
+    }
+
+    // Units between two shown clock units are shown too, so that "1:00:05" has no gaps
+    const first = clock.findIndex((entry) => entry.shown);
+    const last = clock.map((entry) => entry.shown).lastIndexOf(true);
+    if (first !== -1) {
+      const parts: DurationFormatPart[] = [];
+      for (const entry of clock.slice(first, last + 1)) {
+        if (parts.length > 0) {
+          parts.push({ type: 'literal', value: ':' });
+        }
+        parts.push(
+          ...formatNumber(entry.index, entry.integer, entry.fraction, {
+            useGrouping: false,
+            minimumIntegerDigits: this.#units[entry.index]?.style === '2-digit' ? 2 : 1,
+          }),
+        );
+      }
+      elements.push(parts);
+    }
+
+    return this.#joinList(elements);
+  }
+
+  /**
+   * Gets the options resolved from the locale and the options of the constructor
+   *
+   * @returns {ResolvedDurationFormatOptions} Resolved options
+   */
+  resolvedOptions(): ResolvedDurationFormatOptions {
+    return this.#native ? this.#native.resolvedOptions() : { ...this.#resolved };
+  }
+
+  /**
+   * Joins the formatted units with the list separators of the locale
+   *
+   * @param {DurationFormatPart[][]} elements - Parts of each formatted unit
+   * @returns {DurationFormatPart[]} Parts of the whole list
+   */
+  #joinList(elements: DurationFormatPart[][]): DurationFormatPart[] {
+    const { ListFormat } = Intl as unknown as { ListFormat?: ListFormatConstructor };
+    const style = this.#resolved.style === 'digital' ? 'short' : this.#resolved.style;
+
+    if (typeof ListFormat !== 'function') {
+      return elements.flatMap((parts, index) =>
+        index === 0 ? parts : [{ type: 'literal', value: ', ' }, ...parts],
+      );
+    }
+
+    const list = new ListFormat(this.#resolved.locale, { type: 'unit', style });
+    const remaining = [...elements];
+    return list
+      .formatToParts(elements.map((parts) => parts.map((part) => part.value).join('')))
+      .flatMap((part) =>
+        part.type === 'element'
+          ? (remaining.shift() ?? [])
+          : [{ type: 'literal', value: part.value }],
+      );
+  }
+
+  /**
+   * Converts a duration to the record accepted by the native `Intl.DurationFormat`
+   *
+   * @param {SignedTime | DurationRecord} duration - Duration
+   * @returns {DurationRecord} Record with signed unit fields
+   */
+  #toRecord(duration: SignedTime | DurationRecord): DurationRecord {
+    if (typeof (duration as SignedTime).totalNanoseconds !== 'bigint') {
+      return duration as DurationRecord;
+    }
+    const { values, negative } = toUnitValues(duration);
+    return Object.fromEntries(
+      UNITS.map(({ name }, index) => [name, (negative ? -1 : 1) * Number(values[index]) || 0]),
+    );
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Base class of the errors defined by this library
+ *
+ * Like the built-in APIs, out-of-range arguments and invalid option values throw a
+ * `RangeError` instead.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   duration(input, new Date());
+ * } catch (error) {
+ *   if (error instanceof InvalidDateError) {
+ *     showFieldError(error.argument);
+ *   } else if (error instanceof TimeDeltaError) {
+ *     showFormError(error.message);
+ *   }
+ * }
+ * ```
+ */
+export class TimeDeltaError extends Error {
+  /**
+   * Creates a TimeDeltaError instance
+   *
+   * @param {string} message - Error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeDeltaError';
+  }
+}
+
+/**
+ * Error thrown when a numeric amount of time is not a finite number
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   new SignedTime(NaN);
+ * } catch (error) {
+ *   if (error instanceof InvalidDurationError) {
+ *     console.log(error.argument); // "hours"
+ *   }
+ * }
+ * ```
+ */
+export class InvalidDurationError extends TimeDeltaError {
+  /** Name of the argument that received the value */
+  readonly argument: string;
+
+  /** Rejected value */
+  readonly value: unknown;
+
+  /**
+   * Creates an InvalidDurationError instance
+   *
+   * @param {string} argument - Name of the argument that received the value
+   * @param {unknown} value - Rejected value
+   */
+  constructor(argument: string, value: unknown) {
+    super(`Invalid duration value for '${argument}': ${String(value)}`);
+    this.name = 'InvalidDurationError';
+    this.argument = argument;
+    this.value = value;
+  }
+}
+
+/**
+ * Error thrown when a value cannot be converted to a valid date
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   duration('2024-01-01T09:00:00', 'tomorrow');
+ * } catch (error) {
+ *   if (error instanceof InvalidDateError) {
+ *     console.log(error.argument); // "to"
+ *   }
+ * }
+ * ```
+ */
+export class InvalidDateError extends TimeDeltaError {
+  /** Name of the argument that received the value */
+  readonly argument: string;
+
+  /** Rejected value */
+  readonly value: unknown;
+
+  /**
+   * Creates an InvalidDateError instance
+   *
+   * @param {string} argument - Name of the argument that received the value
+   * @param {unknown} value - Rejected value
+   */
+  constructor(argument: string, value: unknown) {
+    super(`Invalid Date for '${argument}'`);
+    this.name = 'InvalidDateError';
+    this.argument = argument;
+    this.value = value;
+  }
+}
+
+/**
+ * Error thrown when time is divided by zero
+ */
+export class DivisionByZeroError extends TimeDeltaError {
+  /**
+   * Creates a DivisionByZeroError instance
+   */
+  constructor() {
+    super('Division by zero is not allowed');
+    this.name = 'DivisionByZeroError';
+  }
+}
+
+/**
+ * Error thrown when an aggregate is calculated over no times
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   SignedTime.min(...laps);
+ * } catch (error) {
+ *   if (error instanceof EmptyCollectionError) {
+ *     console.log(error.operation); // "min"
+ *   }
+ * }
+ * ```
+ */
+export class EmptyCollectionError extends TimeDeltaError {
+  /** Name of the operation that needed at least one time */
+  readonly operation: string;
+
+  /**
+   * Creates an EmptyCollectionError instance
+   *
+   * @param {string} operation - Name of the operation that needed at least one time
+   */
+  constructor(operation: string) {
+    super(`Cannot calculate ${operation} of an empty collection`);
+    this.name = 'EmptyCollectionError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Error thrown when a timer operation is not allowed in the current state
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   stopwatch.resume();
+ * } catch (error) {
+ *   if (error instanceof TimerStateError) {
+ *     console.log(error.state); // "running"
+ *   }
+ * }
+ * ```
+ */
+export class TimerStateError extends TimeDeltaError {
+  /** Name of the rejected operation */
+  readonly operation: string;
+
+  /** State of the timer when the operation was attempted */
+  readonly state: string;
+
+  /**
+   * Creates a TimerStateError instance
+   *
+   * @param {string} operation - Name of the rejected operation
+   * @param {string} state - State of the timer when the operation was attempted
+   */
+  constructor(operation: string, state: string) {
+    super(`Cannot ${operation} a timer that is ${state}`);
+    this.name = 'TimerStateError';
+    this.operation = operation;
+    this.state = state;
+  }
+}
+
+/**
+ * Error thrown when a string cannot be parsed as a duration
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   SignedTime.parse('1h 30x');
+ * } catch (error) {
+ *   if (error instanceof ParseError) {
+ *     console.log(error.position); // 5
+ *   }
+ * }
+ * ```
+ */
+export class ParseError extends TimeDeltaError {
+  /** Input string that failed to parse */
+  readonly input: string;
+
+  /** Zero-based position of the offending character in the input */
+  readonly position: number;
+
+  /** Format string the input was expected to match, if any */
+  readonly format: string | undefined;
+
+  /**
+   * Creates a ParseError instance
+   *
+   * @param {string} message - Error message
+   * @param {string} input - Input string that failed to parse
+   * @param {number} position - Zero-based position of the offending character in the input
+   * @param {string} [format] - Format string the input was expected to match
+   */
+  constructor(message: string, input: string, position: number, format?: string) {
+    super(message);
+    this.name = 'ParseError';
+    this.input = input;
+    this.position = position;
+    this.format = format;
+  }
+}
+
+/**
+ * Error thrown when a format string is malformed, such as an unterminated quote or bracket
+ *
+ * The format string itself is the input, and the position points into it. As a ParseError,
+ * it is also returned as the failure of the result-returning parsers.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   SignedTime.fromFormat('1:30', userFormat);
+ * } catch (error) {
+ *   if (error instanceof InvalidFormatError) {
+ *     console.log(error.position); // position of the offending character in userFormat
+ *   }
+ * }
+ * ```
+ */
+export class InvalidFormatError extends ParseError {
+  /**
+   * Creates an InvalidFormatError instance
+   *
+   * @param {string} message - Error message
+   * @param {string} format - Malformed format string
+   * @param {number} position - Zero-based position of the offending character in the format
+   */
+  constructor(message: string, format: string, position: number) {
+    super(message, format, position, format);
+    this.name = 'InvalidFormatError';
+  }
+}
+
+/**
+ * Result of a parser that reports failure as a value instead of throwing
+ *
+ * @example
+ * ```typescript
+ * const result = SignedTime.tryParse(input);
+ * if (result.ok) {
+ *   save(result.value);
+ * } else {
+ *   highlight(result.error.position);
+ * }
+ * ```
+ */
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: ParseError };
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { InvalidFormatError, ParseError } from './errors';
+import { compileFormat, tokenizeFormat } from './format';
+import type { FormatString } from './format';
+
+describe('tokenizeFormat', () => {
+  it('should group runs of token characters into fields', () => {
+    expect(tokenizeFormat('hh:m')).toEqual([
+      { type: 'field', unit: 'hour', length: 2 },
+      { type: 'literal', value: ':' },
+      { type: 'field', unit: 'minute', length: 1 },
+    ]);
+  });
+
+  it('should treat backslash-escaped characters as literals', () => {
+    expect(tokenizeFormat('h\\h')).toEqual([
+      { type: 'field', unit: 'hour', length: 1 },
+      { type: 'literal', value: 'h' },
+    ]);
+  });
+
+  it('should treat quoted text as literals', () => {
+    expect(tokenizeFormat("s 'seconds'")).toEqual([
+      { type: 'field', unit: 'second', length: 1 },
+      { type: 'literal', value: ' seconds' },
+    ]);
+  });
+
+  it('should tokenize fractions of a second', () => {
+    expect(tokenizeFormat('SS')).toEqual([{ type: 'field', unit: 'fraction', length: 2 }]);
+  });
+
+  it('should tokenize nested optional sections', () => {
+    expect(tokenizeFormat('mm[:ss[.S]]')).toEqual([
+      { type: 'field', unit: 'minute', length: 2 },
+      {
+        type: 'optional',
+        tokens: [
+          { type: 'literal', value: ':' },
+          { type: 'field', unit: 'second', length: 2 },
+          {
+            type: 'optional',
+            tokens: [
+              { type: 'literal', value: '.' },
+              { type: 'field', unit: 'fraction', length: 1 },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should treat doubled single quotes as a quote character', () => {
+    expect(tokenizeFormat("h''")).toEqual([
+      { type: 'field', unit: 'hour', length: 1 },
+      { type: 'literal', value: "'" },
+    ]);
+    expect(tokenizeFormat("'it''s'")).toEqual([{ type: 'literal', value: "it's" }]);
+  });
+
+  it('should throw error for unterminated literals', () => {
+    expect(() => tokenizeFormat("h 'hours")).toThrow('Unterminated literal in format');
+  });
+
+  it('should throw error for unbalanced optional sections', () => {
+    expect(() => tokenizeFormat('h[:mm')).toThrow('Unterminated optional section in format');
+    expect(() => tokenizeFormat('h]')).toThrow("Unmatched ']' in format");
+  });
+
+  it('should throw InvalidFormatError with the position in the format', () => {
+    const positionOf = (format: string): number | undefined => {
+      try {
+        tokenizeFormat(format);
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidFormatError);
+        expect(error).toBeInstanceOf(ParseError);
+        return (error as InvalidFormatError).position;
+      }
+      return undefined;
+    };
+    expect(positionOf("h 'hours")).toBe(2);
+    expect(positionOf('h[:mm[:ss]')).toBe(1);
+    expect(positionOf('h]')).toBe(1);
+  });
+});
+
+/** Converts milliseconds to the nanoseconds used by compiled formats */
+const ms = (milliseconds: number): bigint => BigInt(milliseconds) * 1000000n;
+
+describe('compileFormat', () => {
+  it('should replace every occurrence of a token', () => {
+    const { format } = compileFormat('hh:mm (hh)');
+    expect(format(ms(5400000))).toBe('01:30 (01)');
+  });
+
+  it('should keep the largest unit unbounded', () => {
+    expect(compileFormat('mm:ss').format(ms(5400000))).toBe('90:00');
+    expect(compileFormat('hhh').format(ms(3600000))).toBe('001');
+  });
+
+  it('should parse what it formats', () => {
+    const compiled = compileFormat("d 'days' hh 'h' mm\\m");
+    const text = compiled.format(ms(-(2 * 86400000 + 3 * 3600000 + 4 * 60000)));
+    expect(text).toBe('-2 days 03 h 04m');
+    expect(compiled.parse(text)).toBe(ms(-(2 * 86400000 + 3 * 3600000 + 4 * 60000)));
+  });
+
+  it('should reject inconsistent repeated tokens', () => {
+    const { parse } = compileFormat('hh:mm (hh)');
+    expect(parse('01:30 (01)')).toBe(ms(5400000));
+    expect(parse('01:30 (02)')).toBeNull();
+  });
+
+  it('should handle optional sections', () => {
+    const { format, parse } = compileFormat('m[:ss[.SS]]');
+    expect(format(ms(60000))).toBe('1');
+    expect(format(ms(61000))).toBe('1:01');
+    expect(format(ms(60120))).toBe('1:00.12');
+    expect(parse('1')).toBe(ms(60000));
+    expect(parse('1:01.5')).toBe(ms(61500));
+  });
+
+  it('should return null for non-matching input', () => {
+    expect(compileFormat('hh:mm').parse('1h')).toBeNull();
+  });
+
+  it('should format and parse sub-millisecond precision', () => {
+    const { format, parse } = compileFormat('s.SSSSSSSSS');
+    expect(format(1234567891n)).toBe('1.234567891');
+    expect(parse('1.234567891')).toBe(1234567891n);
+    expect(compileFormat('s.SSSSSS').format(1234567891n)).toBe('1.234567');
+    expect(compileFormat('s.SSSSSSSSSSS').format(1234567891n)).toBe('1.23456789100');
+  });
+
+  it('should format and parse microsecond and nanosecond tokens', () => {
+    const { format, parse } = compileFormat('ss.SSS uuu nnn');
+    expect(format(1234567891n)).toBe('01.234 567 891');
+    expect(parse('01.234 567 891')).toBe(1234567891n);
+    expect(compileFormat('u.nnn').format(1234567891n)).toBe('1234567.891');
+    expect(compileFormat('u.nnn').parse('1234567.891')).toBe(1234567891n);
+    expect(compileFormat('s.SSS[uuu]').format(1234000000n)).toBe('1.234');
+  });
+
+  it('should output the sign of sub-millisecond negative values', () => {
+    expect(compileFormat('ss.SSSSSS').format(-1500n)).toBe('-00.000001');
+  });
+
+  it('should treat regular expression characters in literals literally', () => {
+    const { parse } = compileFormat('(h+m)');
+    expect(parse('(1+30)')).toBe(ms(5400000));
+    expect(parse('(1130)')).toBeNull();
+  });
+
+  it('should locate the first token that does not match', () => {
+    const { mismatchPosition } = compileFormat('hh:mm[:ss]');
+    expect(mismatchPosition('01:3x')).toBe(3);
+    expect(mismatchPosition('-01:30:5')).toBe(6);
+    expect(mismatchPosition('x')).toBe(0);
+    expect(compileFormat('h:mm h').mismatchPosition('1:30 2')).toBe(6);
+  });
+
+  it('should locate fields in matching strings', () => {
+    const { fieldPosition } = compileFormat("d'd' [h'h' ]mm'm'");
+    expect(fieldPosition('-2d 5h 30m', 'hour')).toBe(4);
+    expect(fieldPosition('2d 30m', 'minute')).toBe(3);
+    expect(fieldPosition('2d 30m', 'hour')).toBeNull();
+    expect(fieldPosition('2d 5h', 'hour')).toBeNull();
+  });
+
+  it('should cache compiled formats', () => {
+    const compiled = compileFormat('hh:mm:ss');
+    expect(compileFormat('hh:mm:ss')).toBe(compiled);
+
+    // The oldest formats are evicted when the cache is full
+    for (let i = 0; i < 100; i++) {
+      compileFormat(`hh:mm '${i}'`);
+    }
+    const recompiled = compileFormat('hh:mm:ss');
+    expect(recompiled).not.toBe(compiled);
+    expect(recompiled.format(ms(5400000))).toBe('01:30:00');
+  });
+});
+
+describe('FormatString', () => {
+  /** Accepts only formats that are valid at compile time */
+  const check = <F extends string>(format: FormatString<F>): string => format;
+
+  it('should accept valid formats', () => {
+    expect(check('hh:mm:ss.SSS')).toBe('hh:mm:ss.SSS');
+    expect(check("h 'hours' m 'minutes'")).toBe("h 'hours' m 'minutes'");
+    expect(check('h\\h m\\m')).toBe('h\\h m\\m');
+    expect(check('d hh:mm[:ss[.S]]')).toBe('d hh:mm[:ss[.S]]');
+    expect(check('ss.SSS uuu nnn')).toBe('ss.SSS uuu nnn');
+    expect(check('h時m分')).toBe('h時m分');
+    expect(check('hh:mn' as string)).toBe('hh:mn');
+  });
+
+  it('should reject invalid formats at compile time', () => {
+    // @ts-expect-error: Skips seconds and fractions between minutes and nanoseconds
+    check('hh:mn');
+    // @ts-expect-error: 'M' is not a token
+    check('HH:MM');
+    // @ts-expect-error: Skips minutes
+    check('hh:ss');
+    // @ts-expect-error: Unterminated optional section
+    check('h[:mm');
+    // @ts-expect-error: Unmatched bracket
+    check('h]');
+    // @ts-expect-error: Unterminated literal
+    check("h 'hours");
+  });
+});
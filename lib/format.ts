@@ -0,0 +1,527 @@
+import { InvalidFormatError } from './errors';
+
+/**
+ * Time units that can be represented by format tokens
+ *
+ * `fraction` is the fractional part of a second, whose precision is given by the token length.
+ */
+export type FormatUnit =
+  | 'day'
+  | 'hour'
+  | 'minute'
+  | 'second'
+  | 'microsecond'
+  | 'nanosecond'
+  | 'fraction';
+
+/** A single element of a tokenized format string */
+export type FormatToken =
+  | {
+      /** Literal text that is output and matched as is */
+      type: 'literal';
+      value: string;
+    }
+  | {
+      /** Numeric field for a time unit */
+      type: 'field';
+      unit: FormatUnit;
+      /** Number of repeated token characters (e.g. 2 for 'hh') */
+      length: number;
+    }
+  | {
+      /** Section that is omitted when all of its fields are zero */
+      type: 'optional';
+      tokens: FormatToken[];
+    };
+
+/** Format compiled into a formatter and a parser */
+export interface CompiledFormat {
+  /** Formats nanoseconds into a string */
+  format(nanoseconds: bigint): string;
+  /** Parses a string into nanoseconds, or returns null when it does not match */
+  parse(input: string): bigint | null;
+  /**
+   * Gets the position up to which a string matches the format, i.e. the start of the first
+   * token that does not match (the input length when only repeated fields disagree)
+   */
+  mismatchPosition(input: string): number;
+  /**
+   * Gets the position of the first field of a unit in a string matching the format, or
+   * returns null when the string does not match or the field is absent from it
+   */
+  fieldPosition(input: string, unit: FormatUnit): number | null;
+}
+
+/** Token characters from the largest unit to the smallest (`S` is the fraction of a second) */
+type TokenLadder = ['d', 'h', 'm', 's', 'S', 'u', 'n'];
+
+/** Token character */
+type TokenChar = TokenLadder[number];
+
+/**
+ * Splits a string type into a union of its characters
+ *
+ * @template S - String to split
+ * @template Chars - Characters found so far
+ */
+type CharsOf<S extends string, Chars extends string = never> = S extends `${infer C}${infer Rest}`
+  ? CharsOf<Rest, Chars | C>
+  : Chars;
+
+/** ASCII letters, which must be quoted or escaped to be literal text unless they are tokens */
+type Letter = CharsOf<'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'>;
+
+/**
+ * Skips the rest of a quoted literal, where `''` is a quote character
+ *
+ * @template S - Format after the opening quote
+ */
+type SkipQuoted<S extends string> = S extends `${string}'${infer After}`
+  ? After extends `'${infer Rest}`
+    ? SkipQuoted<Rest>
+    : { rest: After }
+  : { error: 'Invalid format: unterminated literal' };
+
+/**
+ * Scans a format string type, collecting its token characters
+ *
+ * @template F - Format string
+ * @template Letters - Letters accepted as tokens in addition to the token characters
+ * @template Tokens - Token characters found so far
+ * @template Depth - Open optional sections
+ */
+type ScanFormat<
+  F extends string,
+  Letters extends string,
+  Tokens extends string = never,
+  Depth extends unknown[] = [],
+> = F extends `\\${string}${infer Rest}`
+  ? ScanFormat<Rest, Letters, Tokens, Depth>
+  : F extends `'${infer Rest}`
+    ? SkipQuoted<Rest> extends { rest: infer After extends string }
+      ? ScanFormat<After, Letters, Tokens, Depth>
+      : SkipQuoted<Rest>
+    : F extends `[${infer Rest}`
+      ? ScanFormat<Rest, Letters, Tokens, [...Depth, unknown]>
+      : F extends `]${infer Rest}`
+        ? Depth extends [unknown, ...infer Outer]
+          ? ScanFormat<Rest, Letters, Tokens, Outer>
+          : { error: "Invalid format: unmatched ']'" }
+        : F extends `${infer C}${infer Rest}`
+          ? C extends TokenChar
+            ? ScanFormat<Rest, Letters, Tokens | C, Depth>
+            : C extends Exclude<Letter, Letters>
+              ? { error: `Invalid format: '${C}' is not a token; quote or escape literal text` }
+              : ScanFormat<Rest, Letters, Tokens, Depth>
+          : Depth extends []
+            ? { tokens: Tokens }
+            : { error: 'Invalid format: unterminated optional section' };
+
+/**
+ * Checks that the units of a format are contiguous, with no unit skipped between the
+ * largest and the smallest (e.g. 'hh:ss' skips minutes, which would silently be lost)
+ *
+ * @template Tokens - Token characters in the format
+ * @template Ladder - Remaining token characters from largest to smallest
+ * @template Gap - First skipped token character after the largest one
+ * @template Started - Whether the largest token character has been reached
+ */
+type CheckContiguous<
+  Tokens extends string,
+  Ladder extends string[] = TokenLadder,
+  Gap extends string = never,
+  Started extends boolean = false,
+> = Ladder extends [infer T extends string, ...infer Rest extends string[]]
+  ? [T] extends [Tokens]
+    ? [Gap] extends [never]
+      ? CheckContiguous<Tokens, Rest, never, true>
+      : `Invalid format: '${T}' requires '${Gap}'`
+    : Started extends true
+      ? CheckContiguous<Tokens, Rest, [Gap] extends [never] ? T : Gap, true>
+      : CheckContiguous<Tokens, Rest, never, false>
+  : true;
+
+/**
+ * Validates a format string at compile time
+ *
+ * Resolves to the format itself when it is valid, and to an error message otherwise,
+ * so an invalid literal format is reported where it is passed. A format of type
+ * `string` is not checked.
+ *
+ * In addition to the syntax checked at runtime, letters other than tokens must be quoted
+ * or escaped (catching typos such as 'HH:MM'), and no unit may be skipped between the
+ * largest and the smallest (catching typos such as 'hh:mn').
+ *
+ * @template F - Format string
+ * @template Letters - Letters accepted as tokens in addition to the token characters
+ *
+ * @example
+ * ```typescript
+ * const format = <F extends string>(format: FormatString<F>): string => format;
+ * format('hh:mm'); // OK
+ * format('hh:mn'); // Error: Argument of type '"hh:mn"' is not assignable to parameter of type '"Invalid format: 'n' requires 's'"'
+ * ```
+ */
+export type FormatString<F extends string, Letters extends string = never> = string extends F
+  ? F
+  : ScanFormat<F, Letters> extends { tokens: infer Tokens extends string }
+    ? CheckContiguous<Tokens> extends true
+      ? F
+      : CheckContiguous<Tokens>
+    : ScanFormat<F, Letters> extends { error: infer Message extends string }
+      ? Message
+      : never;
+
+/** Token characters and the units they represent */
+const TOKEN_UNITS: Readonly<Record<string, FormatUnit>> = {
+  d: 'day',
+  h: 'hour',
+  m: 'minute',
+  s: 'second',
+  u: 'microsecond',
+  n: 'nanosecond',
+  S: 'fraction',
+};
+
+/**
+ * Whole units ordered from largest to smallest, with their length in nanoseconds
+ *
+ * Milliseconds have no token of their own (they are output with `S`), but are listed so
+ * that `u` is the microseconds within the millisecond rather than within the second.
+ */
+const WHOLE_UNITS: readonly (readonly [Exclude<FormatUnit, 'fraction'> | 'millisecond', bigint])[] =
+  [
+    ['day', 86400000000000n],
+    ['hour', 3600000000000n],
+    ['minute', 60000000000n],
+    ['second', 1000000000n],
+    ['millisecond', 1000000n],
+    ['microsecond', 1000n],
+    ['nanosecond', 1n],
+  ];
+
+/** Maximum number of compiled formats kept by {@link compileFormat} */
+const FORMAT_CACHE_SIZE = 100;
+
+/** Compiled formats by format string, in order of compilation */
+const formatCache = new Map<string, CompiledFormat>();
+
+/** Number of fractional digits of a second that nanoseconds can represent */
+const FRACTION_DIGITS = 9;
+
+/**
+ * Splits a format string into literal text, unit fields and optional sections
+ *
+ * Token characters (`d`, `h`, `m`, `s`, `u`, `n`, `S`) are grouped into runs of the same
+ * character, whose length controls zero-padding (or precision for `S`).
+ * Any other character is literal text. Token characters can be used as literal text by:
+ * - Escaping a single character with a backslash (`\h`)
+ * - Enclosing text in single quotes (`'hours'`, use `''` for a quote itself)
+ *
+ * Text enclosed in square brackets (`[:ss]`) is an optional section, which can be nested.
+ *
+ * @param {string} format - Format string
+ * @returns {FormatToken[]} Tokens in order of appearance
+ * @throws {InvalidFormatError} When a quote or bracket is not terminated, or a bracket is unmatched
+ */
+export const tokenizeFormat = (format: string): FormatToken[] => {
+  // Stack of token lists, one for the top level and one for each open optional section
+  const stack: FormatToken[][] = [[]];
+  // Positions of the '[' of the open optional sections
+  const sectionStarts: number[] = [];
+  const current = (): FormatToken[] => stack[stack.length - 1] as FormatToken[];
+  const pushLiteral = (value: string): void => {
+    const tokens = current();
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'literal') {
+      last.value += value;
+    } else {
+      tokens.push({ type: 'literal', value });
+    }
+  };
+
+  let i = 0;
+  while (i < format.length) {
+    const char = format.charAt(i);
+
+    if (char === '\\') {
+      pushLiteral(format.charAt(i + 1));
+      i += 2;
+    } else if (char === "'" && format.charAt(i + 1) === "'") {
+      pushLiteral("'");
+      i += 2;
+    } else if (char === "'") {
+      // Find the closing quote, treating '' inside the literal as a quote character
+      let value = '';
+      let j = i + 1;
+      while (format.charAt(j) !== "'" || format.charAt(j + 1) === "'") {
+        if (j >= format.length) {
+          throw new InvalidFormatError(`Unterminated literal in format: ${format}`, format, i);
+        }
+        value += format.charAt(j);
+        j += format.charAt(j) === "'" ? 2 : 1;
+      }
+      pushLiteral(value);
+      i = j + 1;
+    } else if (char === '[') {
+      const section: FormatToken[] = [];
+      current().push({ type: 'optional', tokens: section });
+      stack.push(section);
+      sectionStarts.push(i);
+      i++;
+    } else if (char === ']') {
+      if (stack.length === 1) {
+        throw new InvalidFormatError(`Unmatched ']' in format: ${format}`, format, i);
+      }
+      stack.pop();
+      sectionStarts.pop();
+      i++;
+    } else if (char in TOKEN_UNITS) {
+      let length = 1;
+      while (format.charAt(i + length) === char) {
+        length++;
+      }
+      current().push({ type: 'field', unit: TOKEN_UNITS[char] as FormatUnit, length });
+      i += length;
+    } else {
+      pushLiteral(char);
+      i++;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new InvalidFormatError(
+      `Unterminated optional section in format: ${format}`,
+      format,
+      sectionStarts[sectionStarts.length - 1] as number,
+    );
+  }
+
+  return current();
+};
+
+/**
+ * Gets the fields of tokens, including those in optional sections, in order of appearance
+ *
+ * @param {FormatToken[]} tokens - Tokenized format
+ * @returns {Extract<FormatToken, { type: 'field' }>[]} Fields
+ */
+const getFields = (tokens: FormatToken[]): Extract<FormatToken, { type: 'field' }>[] =>
+  tokens.flatMap((token) => {
+    if (token.type === 'field') return [token];
+    if (token.type === 'optional') return getFields(token.tokens);
+    return [];
+  });
+
+/**
+ * Escapes characters that have a special meaning in regular expressions
+ *
+ * @param {string} value - Text to escape
+ * @returns {string} Escaped text
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Formats the fractional part of a second with the given number of digits, truncating the rest
+ *
+ * @param {bigint} nanoseconds - Nanoseconds within the second (0-999999999)
+ * @param {number} digits - Number of fractional digits
+ * @returns {string} Fraction digits
+ */
+const formatFraction = (nanoseconds: bigint, digits: number): string =>
+  nanoseconds.toString().padStart(FRACTION_DIGITS, '0').padEnd(digits, '0').slice(0, digits);
+
+/**
+ * Parses fraction digits into nanoseconds, truncating digits beyond nanosecond precision
+ *
+ * @param {string} digits - Fraction digits
+ * @returns {bigint} Nanoseconds
+ */
+const parseFraction = (digits: string): bigint =>
+  BigInt(digits.padEnd(FRACTION_DIGITS, '0').slice(0, FRACTION_DIGITS));
+
+/**
+ * Builds the formatter and the parser of a format string
+ *
+ * The largest unit in the format is unbounded and absorbs the larger units that do not
+ * appear in it (e.g. 50 hours is "50:00" with 'hh:mm', and 90 minutes is "90:00" with
+ * 'mm:ss'). Smaller units roll over into it. Optional sections are output only when one
+ * of their fields is non-zero, and may be absent when parsing. Parsing accepts everything
+ * formatting produces, so parsing a formatted value restores it up to the precision of the format.
+ *
+ * @param {string} format - Format string
+ * @returns {CompiledFormat} Compiled format
+ * @throws {InvalidFormatError} When a quote or bracket is not terminated, or a bracket is unmatched
+ */
+const buildFormat = (format: string): CompiledFormat => {
+  const tokens = tokenizeFormat(format);
+  const fields = getFields(tokens);
+  const wholeUnits = WHOLE_UNITS.slice(
+    Math.max(
+      0,
+      WHOLE_UNITS.findIndex(([unit]) => fields.some((field) => field.unit === unit)),
+    ),
+  );
+  const largestUnit = wholeUnits[0]?.[0];
+  // Capture groups of the fields and optional sections (the sign is group 1)
+  const groups = new Map<FormatToken, number>();
+  const groupOf = (token: FormatToken): number => {
+    if (!groups.has(token)) {
+      groups.set(token, groups.size + 2);
+    }
+    return groups.get(token) as number;
+  };
+
+  const toPattern = (token: FormatToken): string => {
+    if (token.type !== 'literal') {
+      groupOf(token);
+    }
+    switch (token.type) {
+      case 'literal':
+        return escapeRegExp(token.value);
+      case 'optional':
+        return `(${token.tokens.map(toPattern).join('')})?`;
+      case 'field':
+        if (token.unit === 'fraction') {
+          return `(\\d{1,${token.length}})`;
+        }
+        if (token.unit === largestUnit) {
+          return token.length > 1 ? `(\\d{${token.length},})` : '(\\d+)';
+        }
+        if (token.length > 1) {
+          return `(\\d{${token.length}})`;
+        }
+        return token.unit === 'microsecond' || token.unit === 'nanosecond'
+          ? '(\\d{1,3})'
+          : '(\\d{1,2})';
+    }
+  };
+
+  const regex = new RegExp(`^([-+])?${tokens.map(toPattern).join('')}$`);
+  // Each token is only tried after all the previous ones have matched
+  const prefixRegex = new RegExp(
+    `^[-+]?${tokens.reduceRight((rest, token) => `(?:${toPattern(token)}${rest})?`, '')}`,
+  );
+
+  return {
+    format(nanoseconds: bigint): string {
+      const absolute = nanoseconds < 0n ? -nanoseconds : nanoseconds;
+      const values: Partial<Record<(typeof WHOLE_UNITS)[number][0], bigint>> = {};
+      let remaining = absolute;
+      for (const [unit, unitNanoseconds] of wholeUnits) {
+        values[unit] = remaining / unitNanoseconds;
+        remaining %= unitNanoseconds;
+      }
+
+      const formatField = (field: Extract<FormatToken, { type: 'field' }>): string =>
+        field.unit === 'fraction'
+          ? formatFraction(absolute % 1000000000n, field.length)
+          : (values[field.unit] ?? 0n).toString().padStart(field.length, '0');
+
+      const formatTokens = (section: FormatToken[]): string =>
+        section
+          .map((token) => {
+            switch (token.type) {
+              case 'literal':
+                return token.value;
+              case 'field':
+                return formatField(token);
+              case 'optional':
+                return getFields(token.tokens).some((field) => /[1-9]/.test(formatField(field)))
+                  ? formatTokens(token.tokens)
+                  : '';
+            }
+          })
+          .join('');
+
+      const result = formatTokens(tokens);
+      return nanoseconds < 0n ? `-${result}` : result;
+    },
+
+    parse(input: string): bigint | null {
+      const match = input.match(regex);
+      if (!match) {
+        return null;
+      }
+
+      const values: Partial<Record<FormatUnit, bigint>> = {};
+      for (const field of fields) {
+        const digits = match[groupOf(field)];
+        // Fields in omitted optional sections do not capture anything
+        if (digits === undefined) {
+          continue;
+        }
+        const value = field.unit === 'fraction' ? parseFraction(digits) : BigInt(digits);
+        // Repeated tokens of the same unit must agree with each other
+        if (values[field.unit] !== undefined && values[field.unit] !== value) {
+          return null;
+        }
+        values[field.unit] = value;
+      }
+
+      const nanoseconds = WHOLE_UNITS.reduce(
+        (total, [unit, unitNanoseconds]) =>
+          unit === 'millisecond' ? total : total + (values[unit] ?? 0n) * unitNanoseconds,
+        values.fraction ?? 0n,
+      );
+      return match[1] === '-' ? -nanoseconds : nanoseconds;
+    },
+
+    mismatchPosition(input: string): number {
+      return input.match(prefixRegex)?.[0].length ?? 0;
+    },
+
+    fieldPosition(input: string, unit: FormatUnit): number | null {
+      const match = input.match(regex);
+      if (!match) {
+        return null;
+      }
+
+      // Adds up the lengths of the tokens before the field, skipping omitted sections
+      let position = match[1]?.length ?? 0;
+      const find = (section: FormatToken[]): boolean =>
+        section.some((token) => {
+          if (token.type === 'literal') {
+            position += token.value.length;
+            return false;
+          }
+          const captured = match[groupOf(token)];
+          if (captured === undefined) {
+            return false;
+          }
+          if (token.type === 'optional') {
+            return find(token.tokens);
+          }
+          if (token.unit === unit) {
+            return true;
+          }
+          position += captured.length;
+          return false;
+        });
+      return find(tokens) ? position : null;
+    },
+  };
+};
+
+/**
+ * Compiles a format string into a formatter and a parser
+ *
+ * Compiled formats are cached, so formatting and parsing repeatedly with the same format
+ * does not rebuild its regular expressions. The least recently compiled formats are
+ * evicted when the cache is full.
+ *
+ * @param {string} format - Format string
+ * @returns {CompiledFormat} Compiled format
+ * @throws {InvalidFormatError} When a quote or bracket is not terminated, or a bracket is unmatched
+ */
+export const compileFormat = (format: string): CompiledFormat => {
+  let compiled = formatCache.get(format);
+  if (!compiled) {
+    compiled = buildFormat(format);
+    if (formatCache.size >= FORMAT_CACHE_SIZE) {
+      formatCache.delete(formatCache.keys().next().value as string);
+    }
+    formatCache.set(format, compiled);
+  }
+  return compiled;
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { humanize } from './humanize';
+import { registerLocale } from './locales';
+import { SignedTime } from './SignedTime';
+
+describe('humanize', () => {
+  describe('English', () => {
+    it('should use correct plural forms', () => {
+      expect(humanize(new SignedTime(1, 30))).toBe('1 hour 30 minutes');
+      expect(humanize(new SignedTime(2, 1, 1))).toBe('2 hours 1 minute 1 second');
+      expect(humanize(SignedTime.fromSeconds(1))).toBe('1 second');
+    });
+
+    it('should omit zero units', () => {
+      expect(humanize(new SignedTime(1, 0, 45))).toBe('1 hour 45 seconds');
+    });
+
+    it('should express zero in the smallest unit', () => {
+      expect(humanize(new SignedTime())).toBe('0 seconds');
+      expect(humanize(SignedTime.fromMilliseconds(500))).toBe('0 seconds');
+      expect(humanize(new SignedTime(), { smallest: 'minute' })).toBe('0 minutes');
+    });
+
+    it('should format negative durations', () => {
+      expect(humanize(new SignedTime(-1, -30))).toBe('-1 hour 30 minutes');
+    });
+
+    it('should format large numbers with the locale', () => {
+      expect(humanize(SignedTime.fromHours(1234), { largest: 'hour' })).toBe('1,234 hours');
+    });
+  });
+
+  describe('Japanese', () => {
+    it('should format without delimiters', () => {
+      expect(humanize(new SignedTime(1, 30), { locale: 'ja' })).toBe('1時間30分');
+      expect(humanize(SignedTime.fromHours(50), { locale: 'ja' })).toBe('2日2時間');
+    });
+
+    it('should fall back from a regional tag to its language', () => {
+      expect(humanize(new SignedTime(1, 30), { locale: 'ja-JP' })).toBe('1時間30分');
+    });
+  });
+
+  describe('unit options', () => {
+    const time = new SignedTime(50, 30, 15, 250);
+
+    it('should default to days through seconds', () => {
+      expect(humanize(time)).toBe('2 days 2 hours 30 minutes 15 seconds');
+    });
+
+    it('should express larger units in the largest unit', () => {
+      expect(humanize(time, { largest: 'hour' })).toBe('50 hours 30 minutes 15 seconds');
+      expect(humanize(SignedTime.fromDays(15), { largest: 'week' })).toBe('2 weeks 1 day');
+    });
+
+    it('should truncate units below the smallest unit', () => {
+      expect(humanize(time, { smallest: 'minute' })).toBe('2 days 2 hours 30 minutes');
+      expect(humanize(time, { smallest: 'millisecond' })).toBe(
+        '2 days 2 hours 30 minutes 15 seconds 250 milliseconds',
+      );
+    });
+
+    it('should limit the number of units', () => {
+      expect(humanize(time, { maxUnits: 2 })).toBe('2 days 2 hours');
+      expect(humanize(new SignedTime(1, 0, 5), { maxUnits: 2 })).toBe('1 hour 5 seconds');
+    });
+
+    it('should override the delimiter', () => {
+      expect(humanize(new SignedTime(1, 30), { delimiter: ', ' })).toBe('1 hour, 30 minutes');
+    });
+
+    it('should throw error for reversed units', () => {
+      expect(() => humanize(time, { largest: 'second', smallest: 'hour' })).toThrow(RangeError);
+    });
+  });
+
+  describe('locale packs', () => {
+    const pack = {
+      locale: 'de',
+      units: {
+        week: { one: '{0} Woche', other: '{0} Wochen' },
+        day: { one: '{0} Tag', other: '{0} Tage' },
+        hour: { one: '{0} Stunde', other: '{0} Stunden' },
+        minute: { one: '{0} Minute', other: '{0} Minuten' },
+        second: { one: '{0} Sekunde', other: '{0} Sekunden' },
+        millisecond: { one: '{0} Millisekunde', other: '{0} Millisekunden' },
+      },
+      delimiter: ' und ',
+      negative: 'minus {0}',
+    };
+
+    it('should accept a locale pack directly', () => {
+      expect(humanize(new SignedTime(1, 30), { locale: pack })).toBe('1 Stunde und 30 Minuten');
+    });
+
+    it('should use registered locale packs', () => {
+      registerLocale('de', pack);
+      expect(humanize(new SignedTime(-2, -1), { locale: 'de-AT' })).toBe(
+        'minus 2 Stunden und 1 Minute',
+      );
+    });
+
+    it('should fall back to English for unknown locales', () => {
+      expect(humanize(new SignedTime(1), { locale: 'xx' })).toBe('1 hour');
+    });
+  });
+});
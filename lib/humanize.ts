@@ -0,0 +1,114 @@
+import { getLocale } from './locales';
+import type { LocalePack, LocaleUnit } from './locales';
+import type { SignedTime } from './SignedTime';
+
+/** Options for producing natural language output */
+export interface HumanizeOptions {
+  /** Language tag of a registered locale pack, or a locale pack itself (default: 'en') */
+  locale?: string | LocalePack;
+  /** Largest unit to output; larger units are expressed in it (default: 'day') */
+  largest?: LocaleUnit;
+  /** Smallest unit to output; smaller units are truncated (default: 'second') */
+  smallest?: LocaleUnit;
+  /** Maximum number of units to output; remaining smaller units are truncated */
+  maxUnits?: number;
+  /** Separator between units, overriding the one of the locale pack */
+  delimiter?: string;
+}
+
+/** Units ordered from largest to smallest, with their length in milliseconds */
+const UNITS: readonly (readonly [LocaleUnit, number])[] = [
+  ['week', 604800000],
+  ['day', 86400000],
+  ['hour', 3600000],
+  ['minute', 60000],
+  ['second', 1000],
+  ['millisecond', 1],
+];
+
+/**
+ * Gets the index of a unit in {@link UNITS}
+ *
+ * @param {LocaleUnit} unit - Unit
+ * @returns {number} Index
+ */
+const unitIndex = (unit: LocaleUnit): number => UNITS.findIndex(([name]) => name === unit);
+
+/**
+ * Formats a number of a unit with the plural rules of a locale pack
+ *
+ * @param {LocalePack} pack - Locale pack
+ * @param {LocaleUnit} unit - Unit
+ * @param {number} value - Non-negative integer value
+ * @returns {string} Formatted text (e.g. "1 hour", "30 minutes")
+ */
+export const formatUnit = (pack: LocalePack, unit: LocaleUnit, value: number): string => {
+  const patterns = pack.units[unit];
+  const category = new Intl.PluralRules(pack.locale).select(value);
+  const pattern = patterns[category] ?? patterns.other;
+  return pattern.replace('{0}', new Intl.NumberFormat(pack.locale).format(value));
+};
+
+/**
+ * Converts milliseconds to natural language (e.g. "1 hour 30 minutes", "1時間30分")
+ *
+ * Zero units are omitted. When every output unit is zero, the duration is expressed
+ * as zero of the smallest unit (e.g. "0 seconds").
+ *
+ * @param {number} milliseconds - Milliseconds to convert
+ * @param {HumanizeOptions} options - Output options
+ * @returns {string} Natural language text
+ * @throws {RangeError} When the largest unit is smaller than the smallest unit
+ */
+export const humanizeMilliseconds = (
+  milliseconds: number,
+  options: HumanizeOptions = {},
+): string => {
+  const pack = getLocale(options.locale);
+  const largest = unitIndex(options.largest ?? 'day');
+  const smallest = unitIndex(options.smallest ?? 'second');
+
+  if (largest > smallest) {
+    throw new RangeError(
+      `Largest unit '${options.largest}' must not be smaller than smallest unit '${options.smallest}'`,
+    );
+  }
+
+  const parts: string[] = [];
+  let remaining = Math.abs(milliseconds);
+  for (const [unit, unitMilliseconds] of UNITS.slice(largest, smallest + 1)) {
+    if (parts.length >= (options.maxUnits ?? Infinity)) {
+      break;
+    }
+    const value = Math.floor(remaining / unitMilliseconds);
+    remaining -= value * unitMilliseconds;
+    if (value > 0) {
+      parts.push(formatUnit(pack, unit, value));
+    }
+  }
+
+  if (parts.length === 0) {
+    return formatUnit(pack, options.smallest ?? 'second', 0);
+  }
+
+  const text = parts.join(options.delimiter ?? pack.delimiter);
+  return milliseconds < 0 ? pack.negative.replace('{0}', text) : text;
+};
+
+/**
+ * Converts time to natural language (e.g. "1 hour 30 minutes", "1時間30分")
+ *
+ * @param {SignedTime} time - Time to convert
+ * @param {HumanizeOptions} options - Output options
+ * @returns {string} Natural language text
+ * @throws {RangeError} When the largest unit is smaller than the smallest unit
+ *
+ * @example
+ * ```typescript
+ * humanize(new SignedTime(1, 30)); // "1 hour 30 minutes"
+ * humanize(new SignedTime(1, 30), { locale: 'ja' }); // "1時間30分"
+ * humanize(SignedTime.fromHours(50), { largest: 'hour' }); // "50 hours"
+ * ```
+ */
+export const humanize = (time: SignedTime, options: HumanizeOptions = {}): string =>
+  humanizeMilliseconds(time.totalMilliseconds, options);
@@ -0,0 +1,21 @@
+import type { LocalePack } from './types';
+
+/** English locale pack */
+export const en: LocalePack = {
+  locale: 'en',
+  units: {
+    week: { one: '{0} week', other: '{0} weeks' },
+    day: { one: '{0} day', other: '{0} days' },
+    hour: { one: '{0} hour', other: '{0} hours' },
+    minute: { one: '{0} minute', other: '{0} minutes' },
+    second: { one: '{0} second', other: '{0} seconds' },
+    millisecond: { one: '{0} millisecond', other: '{0} milliseconds' },
+  },
+  delimiter: ' ',
+  negative: '-{0}',
+  relative: {
+    future: 'in {0}',
+    past: '{0} ago',
+    justNow: 'just now',
+  },
+};
@@ -0,0 +1,72 @@
+import { en } from './en';
+import { ja } from './ja';
+import type { LocalePack } from './types';
+
+export type { LocalePack, LocaleUnit, PluralPatterns } from './types';
+
+/** Registered locale packs, keyed by lowercase language tag */
+const registry = new Map<string, LocalePack>([
+  ['en', en],
+  ['ja', ja],
+]);
+
+/**
+ * Registers a locale pack
+ *
+ * A pack registered with an existing name replaces it.
+ *
+ * @param {string} name - Language tag used to look up the pack (e.g. 'de' or 'pt-BR')
+ * @param {LocalePack} pack - Locale pack
+ *
+ * @example
+ * ```typescript
+ * registerLocale('de', {
+ *   locale: 'de',
+ *   units: {
+ *     week: { one: '{0} Woche', other: '{0} Wochen' },
+ *     day: { one: '{0} Tag', other: '{0} Tage' },
+ *     hour: { one: '{0} Stunde', other: '{0} Stunden' },
+ *     minute: { one: '{0} Minute', other: '{0} Minuten' },
+ *     second: { one: '{0} Sekunde', other: '{0} Sekunden' },
+ *     millisecond: { one: '{0} Millisekunde', other: '{0} Millisekunden' },
+ *   },
+ *   delimiter: ' ',
+ *   negative: '-{0}',
+ * });
+ * ```
+ */
+export const registerLocale = (name: string, pack: LocalePack): void => {
+  registry.set(name.toLowerCase(), pack);
+};
+
+/**
+ * Finds a registered locale pack for a language tag
+ *
+ * Falls back from a regional tag to its language (e.g. 'en-US' to 'en').
+ *
+ * @param {string} locale - Language tag
+ * @returns {LocalePack | undefined} Locale pack, or undefined when none is registered
+ */
+export const findLocale = (locale: string): LocalePack | undefined => {
+  const subtags = locale.toLowerCase().split('-');
+  while (subtags.length > 0) {
+    const pack = registry.get(subtags.join('-'));
+    if (pack) {
+      return pack;
+    }
+    subtags.pop();
+  }
+  return undefined;
+};
+
+/**
+ * Gets a registered locale pack
+ *
+ * Falls back from a regional tag to its language (e.g. 'en-US' to 'en'),
+ * and to English when no pack is registered for the language.
+ *
+ * @param {string | LocalePack} locale - Language tag or locale pack (default: 'en')
+ * @returns {LocalePack} Locale pack
+ */
+export const getLocale = (locale: string | LocalePack = 'en'): LocalePack =>
+  typeof locale === 'string' ? (findLocale(locale) ?? en) : locale;
@@ -0,0 +1,21 @@
+import type { LocalePack } from './types';
+
+/** Japanese locale pack */
+export const ja: LocalePack = {
+  locale: 'ja',
+  units: {
+    week: { other: '{0}週間' },
+    day: { other: '{0}日' },
+    hour: { other: '{0}時間' },
+    minute: { other: '{0}分' },
+    second: { other: '{0}秒' },
+    millisecond: { other: '{0}ミリ秒' },
+  },
+  delimiter: '',
+  negative: '-{0}',
+  relative: {
+    future: '{0}後',
+    past: '{0}前',
+    justNow: 'たった今',
+  },
+};
@@ -0,0 +1,34 @@
+import type { DurationUnit } from '../parse';
+
+/** Units named by locale packs, down to milliseconds */
+export type LocaleUnit = Exclude<DurationUnit, 'microsecond' | 'nanosecond'>;
+
+/** Text patterns for each plural category, where `{0}` is replaced with the number */
+export type PluralPatterns = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  /** Pattern used when no pattern is defined for the selected plural category */
+  other: string;
+};
+
+/** Locale pack used to produce natural language output */
+export interface LocalePack {
+  /** BCP 47 language tag used for plural rules and number formatting */
+  locale: string;
+  /** Unit names for each plural category */
+  units: Readonly<Record<LocaleUnit, PluralPatterns>>;
+  /** Separator between units (e.g. ' ' for "1 hour 30 minutes") */
+  delimiter: string;
+  /** Pattern for negative durations, where `{0}` is replaced with the positive text */
+  negative: string;
+  /**
+   * Relative time phrases, used when `Intl.RelativeTimeFormat` is unavailable
+   * (`justNow` is always used when defined)
+   */
+  relative?: {
+    /** Pattern for future times, where `{0}` is replaced with the unit text (e.g. 'in {0}') */
+    future: string;
+    /** Pattern for past times, where `{0}` is replaced with the unit text (e.g. '{0} ago') */
+    past: string;
+    /** Phrase for times close to zero (e.g. 'just now') */
+    justNow?: string;
+  };
+}
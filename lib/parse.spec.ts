@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { ParseError } from './errors';
+import { parseDuration } from './parse';
+
+/**
+ * Gets the error thrown by parseDuration
+ *
+ * @param {string} input - Input to parse
+ * @returns {ParseError} Thrown error
+ */
+const parseError = (input: string): ParseError => {
+  try {
+    parseDuration(input);
+  } catch (error) {
+    if (error instanceof ParseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`Expected '${input}' to fail`);
+};
+
+describe('parseDuration', () => {
+  describe('unit-suffixed components', () => {
+    it('should parse single components', () => {
+      expect(parseDuration('90min')).toBe(5400000000000n);
+      expect(parseDuration('45s')).toBe(45000000000n);
+      expect(parseDuration('250ms')).toBe(250000000n);
+      expect(parseDuration('2 days')).toBe(172800000000000n);
+      expect(parseDuration('1w')).toBe(604800000000000n);
+    });
+
+    it('should parse multiple components', () => {
+      expect(parseDuration('1h 30m')).toBe(5400000000000n);
+      expect(parseDuration('2d4h')).toBe(187200000000000n);
+      expect(parseDuration('1 hour, 30 minutes and 15 seconds')).toBe(5415000000000n);
+    });
+
+    it('should parse fractional values', () => {
+      expect(parseDuration('1.5 hours')).toBe(5400000000000n);
+      expect(parseDuration('1,5h')).toBe(5400000000000n);
+      expect(parseDuration('.5m')).toBe(30000000000n);
+    });
+
+    it('should be case-insensitive', () => {
+      expect(parseDuration('1H 30MIN')).toBe(5400000000000n);
+    });
+
+    it('should parse sub-millisecond units exactly', () => {
+      expect(parseDuration('5us')).toBe(5000n);
+      expect(parseDuration('5µs')).toBe(5000n);
+      expect(parseDuration('5μs')).toBe(5000n);
+      expect(parseDuration('250ns')).toBe(250n);
+      expect(parseDuration('1ms 500us 25ns')).toBe(1500025n);
+      expect(parseDuration('0.000000001s')).toBe(1n);
+      expect(parseDuration('1:00:00.123456789')).toBe(3600123456789n);
+    });
+
+    it('should parse Japanese units', () => {
+      expect(parseDuration('1時間30分')).toBe(5400000000000n);
+      expect(parseDuration('2日 3時間')).toBe(183600000000000n);
+      expect(parseDuration('500ミリ秒')).toBe(500000000n);
+    });
+
+    it('should ignore surrounding whitespace', () => {
+      expect(parseDuration('  1h  ')).toBe(3600000000000n);
+    });
+  });
+
+  describe('signs', () => {
+    it('should apply a leading sign to the whole duration', () => {
+      expect(parseDuration('-45s')).toBe(-45000000000n);
+      expect(parseDuration('-1h 30m')).toBe(-5400000000000n);
+      expect(parseDuration('+1h 30m')).toBe(5400000000000n);
+    });
+
+    it('should sign each component individually when signs are mixed', () => {
+      expect(parseDuration('1h -15m')).toBe(2700000000000n);
+      expect(parseDuration('-1h +30m')).toBe(-1800000000000n);
+    });
+  });
+
+  describe('colon-separated forms', () => {
+    it('should parse clock forms', () => {
+      expect(parseDuration('1:30')).toBe(5400000000000n);
+      expect(parseDuration('1:30:15')).toBe(5415000000000n);
+      expect(parseDuration('1:30:15.5')).toBe(5415500000000n);
+      expect(parseDuration('-0:45')).toBe(-2700000000000n);
+      expect(parseDuration('100:00')).toBe(360000000000000n);
+    });
+
+    it('should reject out-of-range clock components', () => {
+      expect(() => parseDuration('1:60')).toThrow(ParseError);
+    });
+  });
+
+  describe('options', () => {
+    it('should accept additional unit aliases', () => {
+      expect(parseDuration('2 Std 5 Min', { units: { std: 'hour' } })).toBe(7500000000000n);
+      expect(parseDuration('3 shifts', { units: { shift: 'day', shifts: 'day' } })).toBe(
+        259200000000000n,
+      );
+    });
+
+    it('should apply the default unit to a bare number', () => {
+      expect(parseDuration('90', { defaultUnit: 'minute' })).toBe(5400000000000n);
+      expect(() => parseDuration('90')).toThrow('Expected a unit at position 2');
+    });
+  });
+
+  describe('errors', () => {
+    it('should report the position of an unknown unit', () => {
+      const error = parseError('1h 30x');
+      expect(error.message).toBe("Unknown unit 'x' at position 5");
+      expect(error.position).toBe(5);
+      expect(error.input).toBe('1h 30x');
+    });
+
+    it('should not accept an alias that is a prefix of an unknown word', () => {
+      expect(parseError('5 mo').message).toBe("Unknown unit 'mo' at position 2");
+    });
+
+    it('should report a missing number', () => {
+      expect(parseError('1h and').position).toBe(3);
+      expect(parseError('  h').position).toBe(2);
+    });
+
+    it('should reject an empty string', () => {
+      expect(parseError('   ').message).toBe('Empty duration string');
+    });
+  });
+});
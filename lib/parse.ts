@@ -0,0 +1,232 @@
+import { ParseError } from './errors';
+import { divideBigInt } from './rounding';
+
+/** Units that can be used in human-readable duration strings */
+export type DurationUnit =
+  | 'week'
+  | 'day'
+  | 'hour'
+  | 'minute'
+  | 'second'
+  | 'millisecond'
+  | 'microsecond'
+  | 'nanosecond';
+
+/** Options for parsing human-readable duration strings */
+export interface ParseOptions {
+  /**
+   * Additional unit aliases, merged with the built-in ones (case-insensitive).
+   * An alias with the same name as a built-in one overrides it.
+   */
+  units?: Readonly<Record<string, DurationUnit>>;
+  /** Unit applied to a single number without a unit (default: none, which is an error) */
+  defaultUnit?: DurationUnit;
+}
+
+/** Length of each unit in nanoseconds */
+const UNIT_NANOSECONDS: Readonly<Record<DurationUnit, bigint>> = {
+  week: 604800000000000n,
+  day: 86400000000000n,
+  hour: 3600000000000n,
+  minute: 60000000000n,
+  second: 1000000000n,
+  millisecond: 1000000n,
+  microsecond: 1000n,
+  nanosecond: 1n,
+};
+
+/** Built-in unit aliases (English and Japanese) */
+const DEFAULT_UNIT_ALIASES: Readonly<Record<string, DurationUnit>> = {
+  w: 'week',
+  wk: 'week',
+  wks: 'week',
+  week: 'week',
+  weeks: 'week',
+  週: 'week',
+  週間: 'week',
+  d: 'day',
+  day: 'day',
+  days: 'day',
+  日: 'day',
+  h: 'hour',
+  hr: 'hour',
+  hrs: 'hour',
+  hour: 'hour',
+  hours: 'hour',
+  時間: 'hour',
+  m: 'minute',
+  min: 'minute',
+  mins: 'minute',
+  minute: 'minute',
+  minutes: 'minute',
+  分: 'minute',
+  s: 'second',
+  sec: 'second',
+  secs: 'second',
+  second: 'second',
+  seconds: 'second',
+  秒: 'second',
+  ms: 'millisecond',
+  msec: 'millisecond',
+  msecs: 'millisecond',
+  millisecond: 'millisecond',
+  milliseconds: 'millisecond',
+  ミリ秒: 'millisecond',
+  us: 'microsecond',
+  µs: 'microsecond',
+  μs: 'microsecond',
+  usec: 'microsecond',
+  usecs: 'microsecond',
+  microsecond: 'microsecond',
+  microseconds: 'microsecond',
+  マイクロ秒: 'microsecond',
+  ns: 'nanosecond',
+  nsec: 'nanosecond',
+  nsecs: 'nanosecond',
+  nanosecond: 'nanosecond',
+  nanoseconds: 'nanosecond',
+  ナノ秒: 'nanosecond',
+};
+
+/** Colon-separated clock form: h:mm, h:mm:ss or h:mm:ss.fff */
+const CLOCK_PATTERN = /^([-+])?(\d+):([0-5]\d)(?::([0-5]\d)(?:[.,](\d+))?)?$/;
+
+/** Signed number at the start of the remaining input */
+const NUMBER_PATTERN = /^([-+])?\s*(\d+(?:[.,]\d+)?|[.,]\d+)/;
+
+/** Separators between components */
+const SEPARATOR_PATTERN = /^(?:\s*,\s*|\s+and\s+|\s+)/i;
+
+/** Characters that may form a unit name */
+const UNIT_PATTERN = /^[\p{L}]+/u;
+
+/**
+ * Converts a decimal number of a unit to whole nanoseconds without going through floats
+ *
+ * @param {string} digits - Unsigned decimal number (e.g. '1.5', ',25' or '30')
+ * @param {bigint} unitNanoseconds - Length of the unit in nanoseconds
+ * @returns {bigint} Nanoseconds, rounded to the nearest nanosecond
+ */
+const decimalToNanoseconds = (digits: string, unitNanoseconds: bigint): bigint => {
+  const [integer = '', fraction = ''] = digits.split(/[.,]/);
+  const scale = 10n ** BigInt(fraction.length);
+  return divideBigInt(
+    BigInt(`${integer}${fraction}` || '0') * unitNanoseconds,
+    scale,
+    'halfAwayFromZero',
+  );
+};
+
+/**
+ * Parses a human-readable duration string into nanoseconds
+ *
+ * Accepts unit-suffixed components such as `1h 30m`, `90min`, `1.5 hours`, `2d4h`
+ * and `1時間30分`, optionally separated by spaces, commas or "and", as well as the
+ * colon-separated forms `h:mm`, `h:mm:ss` and `h:mm:ss.fff`.
+ *
+ * A sign on the first component applies to the whole duration when no other
+ * component has its own sign (`-1h 30m` is -90 minutes). Otherwise each component
+ * is signed individually (`1h -15m` is 45 minutes).
+ *
+ * @param {string} input - Duration string
+ * @param {ParseOptions} options - Parse options
+ * @returns {bigint} Nanoseconds
+ * @throws {ParseError} When the input is not a valid duration
+ */
+export const parseDuration = (input: string, options: ParseOptions = {}): bigint => {
+  const trimmedStart = input.length - input.trimStart().length;
+  const text = input.trim();
+
+  if (text === '') {
+    throw new ParseError('Empty duration string', input, 0);
+  }
+
+  const clock = text.match(CLOCK_PATTERN);
+  if (clock) {
+    const [, sign, hours, minutes, seconds, fraction] = clock;
+    const nanoseconds =
+      BigInt(hours as string) * UNIT_NANOSECONDS.hour +
+      BigInt(minutes as string) * UNIT_NANOSECONDS.minute +
+      decimalToNanoseconds(`${seconds ?? 0}.${fraction ?? ''}`, UNIT_NANOSECONDS.second);
+    return sign === '-' ? -nanoseconds : nanoseconds;
+  }
+
+  const aliases = new Map<string, DurationUnit>();
+  for (const [alias, unit] of Object.entries({ ...DEFAULT_UNIT_ALIASES, ...options.units })) {
+    aliases.set(alias.toLowerCase(), unit);
+  }
+  // Longer aliases are tried first so that e.g. 'ms' is not read as 'm' followed by 's'
+  const aliasNames = [...aliases.keys()].sort((a, b) => b.length - a.length);
+
+  const components: { sign: string | undefined; nanoseconds: bigint }[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    if (components.length > 0) {
+      const separator = text.slice(position).match(SEPARATOR_PATTERN);
+      position += separator ? separator[0].length : 0;
+    }
+
+    const number = text.slice(position).match(NUMBER_PATTERN);
+    if (!number) {
+      throw new ParseError(
+        `Expected a number at position ${trimmedStart + position}`,
+        input,
+        trimmedStart + position,
+      );
+    }
+    const sign = number[1];
+    const value = number[2] as string;
+    position += number[0].length;
+
+    const afterNumber = text.slice(position);
+    const spaces = afterNumber.length - afterNumber.trimStart().length;
+    const rest = afterNumber.slice(spaces).toLowerCase();
+    const alias = aliasNames.find((name) => rest.startsWith(name));
+
+    // Reject aliases that are only a prefix of a longer word (e.g. 'm' in 'mx')
+    const next = rest.slice(alias?.length ?? 0);
+    if (!alias || (UNIT_PATTERN.test(next) && UNIT_PATTERN.test(alias.slice(-1)))) {
+      const unitStart = position + spaces;
+      const isEnd = unitStart >= text.length;
+
+      if (isEnd && components.length === 0 && options.defaultUnit) {
+        components.push({
+          sign,
+          nanoseconds: decimalToNanoseconds(value, UNIT_NANOSECONDS[options.defaultUnit]),
+        });
+        position = unitStart;
+        continue;
+      }
+
+      const unitText = text.slice(unitStart).match(UNIT_PATTERN)?.[0];
+      throw new ParseError(
+        unitText
+          ? `Unknown unit '${unitText}' at position ${trimmedStart + unitStart}`
+          : `Expected a unit at position ${trimmedStart + unitStart}`,
+        input,
+        trimmedStart + unitStart,
+      );
+    }
+
+    components.push({
+      sign,
+      nanoseconds: decimalToNanoseconds(
+        value,
+        UNIT_NANOSECONDS[aliases.get(alias) as DurationUnit],
+      ),
+    });
+    position += spaces + alias.length;
+  }
+
+  const signedCount = components.filter((component) => component.sign !== undefined).length;
+  const first = components[0] as { sign: string | undefined };
+  const applySignToAll = signedCount === 1 && first.sign !== undefined;
+
+  const nanoseconds = components.reduce(
+    (total, component) =>
+      total + (!applySignToAll && component.sign === '-' ? -1n : 1n) * component.nanoseconds,
+    0n,
+  );
+  return applySignToAll && first.sign === '-' ? -nanoseconds : nanoseconds;
+};
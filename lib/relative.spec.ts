@@ -0,0 +1,112 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { en } from './locales/en';
+import { formatRelative } from './relative';
+import { SignedTime } from './SignedTime';
+
+describe('formatRelative', () => {
+  describe('with SignedTime', () => {
+    it('should format future and past times', () => {
+      expect(formatRelative(SignedTime.fromHours(2))).toBe('in 2 hours');
+      expect(formatRelative(SignedTime.fromMinutes(-3))).toBe('3 minutes ago');
+    });
+
+    it('should express times close to zero as just now', () => {
+      expect(formatRelative(new SignedTime())).toBe('just now');
+      expect(formatRelative(SignedTime.fromSeconds(-9))).toBe('just now');
+      expect(formatRelative(SignedTime.fromSeconds(10))).toBe('in 10 seconds');
+    });
+
+    it('should accept a custom just now threshold', () => {
+      expect(
+        formatRelative(SignedTime.fromSeconds(-30), { justNow: SignedTime.fromMinutes(1) }),
+      ).toBe('just now');
+      expect(formatRelative(SignedTime.fromSeconds(-1), { justNow: new SignedTime() })).toBe(
+        '1 second ago',
+      );
+    });
+
+    it('should choose the unit by thresholds', () => {
+      expect(formatRelative(SignedTime.fromSeconds(44))).toBe('in 44 seconds');
+      expect(formatRelative(SignedTime.fromSeconds(50))).toBe('in 1 minute');
+      expect(formatRelative(SignedTime.fromMinutes(50))).toBe('in 1 hour');
+      expect(formatRelative(SignedTime.fromHours(-23))).toBe('1 day ago');
+      expect(formatRelative(SignedTime.fromDays(10))).toBe('in 1 week');
+    });
+
+    it('should accept custom thresholds', () => {
+      const options = { thresholds: { minute: 120 } };
+      expect(formatRelative(SignedTime.fromMinutes(90), options)).toBe('in 90 minutes');
+    });
+
+    it('should round to the nearest integer of the unit', () => {
+      expect(formatRelative(new SignedTime(2, 29))).toBe('in 2 hours');
+      expect(formatRelative(new SignedTime(-2, -30))).toBe('3 hours ago');
+    });
+
+    it('should pass style and numeric to Intl.RelativeTimeFormat', () => {
+      expect(formatRelative(SignedTime.fromMinutes(-3), { style: 'short' })).toBe('3 min. ago');
+      expect(formatRelative(SignedTime.fromDays(1), { numeric: 'auto' })).toBe('tomorrow');
+    });
+  });
+
+  describe('with dates', () => {
+    it('should format the duration between two dates', () => {
+      expect(formatRelative('2024-01-01T10:00:00', '2024-01-01T12:00:00')).toBe('in 2 hours');
+      expect(formatRelative('2024-01-03T10:00:00', '2024-01-01T10:00:00')).toBe('2 days ago');
+    });
+
+    it('should accept options', () => {
+      expect(formatRelative('2024-01-01T10:00:00', '2024-01-01T12:00:00', { locale: 'ja' })).toBe(
+        '2 時間後',
+      );
+    });
+
+    it('should throw error for invalid dates', () => {
+      expect(() => formatRelative('invalid', '2024-01-01')).toThrow('Invalid Date');
+    });
+  });
+
+  describe('locales', () => {
+    it('should use the just now phrase of the locale pack', () => {
+      expect(formatRelative(new SignedTime(), { locale: 'ja' })).toBe('たった今');
+    });
+
+    it('should use Intl.RelativeTimeFormat for locales without a pack', () => {
+      expect(formatRelative(SignedTime.fromHours(-2), { locale: 'fr' })).toBe('il y a 2 heures');
+      expect(formatRelative(new SignedTime(), { locale: 'fr' })).toBe('maintenant');
+    });
+  });
+
+  describe('without Intl.RelativeTimeFormat', () => {
+    const original = Intl.RelativeTimeFormat;
+
+    // Intl.RelativeTimeFormat is read-only in the type definitions, so redefine the property
+    const setRelativeTimeFormat = (value: typeof Intl.RelativeTimeFormat | undefined): void => {
+      Object.defineProperty(Intl, 'RelativeTimeFormat', {
+        value,
+        writable: true,
+        configurable: true,
+      });
+    };
+
+    afterEach(() => {
+      setRelativeTimeFormat(original);
+    });
+
+    it('should fall back to the phrases of the locale pack', () => {
+      setRelativeTimeFormat(undefined);
+      expect(formatRelative(SignedTime.fromHours(2))).toBe('in 2 hours');
+      expect(formatRelative(SignedTime.fromMinutes(-1))).toBe('1 minute ago');
+      expect(formatRelative(SignedTime.fromHours(-2), { locale: 'ja' })).toBe('2時間前');
+      expect(formatRelative(new SignedTime(), { locale: 'fr' })).toBe('just now');
+    });
+
+    it('should throw RangeError for a locale pack without relative phrases', () => {
+      setRelativeTimeFormat(undefined);
+      const { locale, units, delimiter, negative } = en;
+      expect(() =>
+        formatRelative(SignedTime.fromHours(2), { locale: { locale, units, delimiter, negative } }),
+      ).toThrow(RangeError);
+    });
+  });
+});
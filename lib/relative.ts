@@ -0,0 +1,156 @@
+import { duration } from './duration';
+import type { DateLike, DurationOptions } from './duration';
+import { formatUnit } from './humanize';
+import { findLocale, getLocale } from './locales';
+import type { LocalePack } from './locales';
+import { SignedTime } from './SignedTime';
+
+/** Units used in relative time phrases */
+export type RelativeTimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week';
+
+/** Options for producing relative time phrases */
+export interface RelativeTimeOptions {
+  /** Language tag, or a locale pack (default: 'en') */
+  locale?: string | LocalePack;
+  /** Length of the phrase, as in `Intl.RelativeTimeFormat` (default: 'long') */
+  style?: 'long' | 'short' | 'narrow';
+  /**
+   * Whether to always use numbers, as in `Intl.RelativeTimeFormat` (default: 'always').
+   * With 'auto', phrases such as "tomorrow" are used where the locale has them
+   */
+  numeric?: 'always' | 'auto';
+  /**
+   * Values at which each unit gives way to the next larger unit
+   * (default: 45 seconds, 45 minutes, 22 hours, 7 days)
+   */
+  thresholds?: Partial<Record<Exclude<RelativeTimeUnit, 'week'>, number>>;
+  /** Times shorter than this are expressed as "just now" (default: 10 seconds) */
+  justNow?: SignedTime;
+}
+
+/** Units below weeks ordered from smallest to largest, with their length in milliseconds */
+const UNITS: readonly (readonly [Exclude<RelativeTimeUnit, 'week'>, number])[] = [
+  ['second', 1000],
+  ['minute', 60000],
+  ['hour', 3600000],
+  ['day', 86400000],
+];
+
+/** Length of a week in milliseconds */
+const WEEK_MILLISECONDS = 604800000;
+
+/** Default values at which each unit gives way to the next larger unit */
+const DEFAULT_THRESHOLDS: Readonly<Record<Exclude<RelativeTimeUnit, 'week'>, number>> = {
+  second: 45,
+  minute: 45,
+  hour: 22,
+  day: 7,
+};
+
+/**
+ * Checks whether the runtime provides `Intl.RelativeTimeFormat`
+ *
+ * @returns {boolean} True if available
+ */
+const hasRelativeTimeFormat = (): boolean => typeof Intl.RelativeTimeFormat === 'function';
+
+/**
+ * Formats time relative to now (e.g. "in 2 hours", "3 minutes ago")
+ *
+ * Positive times are in the future and negative times are in the past, so the result
+ * of `duration(now, target)` can be passed directly. The unit is chosen by the
+ * thresholds, and the value is rounded to the nearest integer of that unit.
+ * Uses `Intl.RelativeTimeFormat` when the runtime provides it, and otherwise
+ * falls back to the phrases of the locale pack.
+ *
+ * @param {SignedTime} time - Time relative to now
+ * @param {RelativeTimeOptions} options - Output options
+ * @returns {string} Relative time phrase
+ * @throws {RangeError} When `Intl.RelativeTimeFormat` is unavailable and the locale pack has no relative phrases
+ *
+ * @example
+ * ```typescript
+ * formatRelative(SignedTime.fromHours(2)); // "in 2 hours"
+ * formatRelative(SignedTime.fromMinutes(-3)); // "3 minutes ago"
+ * formatRelative(SignedTime.fromSeconds(-2)); // "just now"
+ * formatRelative(SignedTime.fromHours(-2), { locale: 'ja' }); // "2 時間前"
+ * formatRelative(new Date(), '2024-12-31T00:00:00'); // e.g. "in 3 weeks"
+ * ```
+ */
+export function formatRelative(time: SignedTime, options?: RelativeTimeOptions): string;
+/**
+ * Formats the time from one date to another as a relative phrase
+ *
+ * Equivalent to `formatRelative(duration(from, to), options)`.
+ *
+ * @param {DateLike} from - Reference date/time (usually now)
+ * @param {DateLike} to - Target date/time
+ * @param {RelativeTimeOptions & DurationOptions} options - Output and calculation options
+ * @returns {string} Relative time phrase
+ * @throws {InvalidDateError} When invalid dates are specified
+ */
+export function formatRelative(
+  from: DateLike,
+  to: DateLike,
+  options?: RelativeTimeOptions & DurationOptions,
+): string;
+export function formatRelative(
+  timeOrFrom: SignedTime | DateLike,
+  toOrOptions?: DateLike | RelativeTimeOptions,
+  durationOptions?: RelativeTimeOptions & DurationOptions,
+): string {
+  let time: SignedTime;
+  let options: RelativeTimeOptions;
+  if (timeOrFrom instanceof SignedTime) {
+    time = timeOrFrom;
+    options = (toOrOptions as RelativeTimeOptions | undefined) ?? {};
+  } else {
+    options = durationOptions ?? {};
+    time = duration(timeOrFrom, toOrOptions as DateLike, durationOptions ?? {});
+  }
+
+  const localeOption = options.locale ?? 'en';
+  const pack = typeof localeOption === 'string' ? findLocale(localeOption) : localeOption;
+  const locale = typeof localeOption === 'string' ? localeOption : localeOption.locale;
+  const abs = Math.abs(time.totalMilliseconds);
+
+  if (abs < (options.justNow ?? SignedTime.fromSeconds(10)).abs().totalMilliseconds) {
+    if (pack?.relative?.justNow) {
+      return pack.relative.justNow;
+    }
+    if (hasRelativeTimeFormat()) {
+      return new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(0, 'second');
+    }
+    return getLocale().relative?.justNow as string;
+  }
+
+  // Use the smallest unit whose rounded value is below its threshold, or weeks
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+  let unit: RelativeTimeUnit = 'week';
+  let value = Math.round(abs / WEEK_MILLISECONDS);
+  for (const [name, unitMilliseconds] of UNITS) {
+    const rounded = Math.round(abs / unitMilliseconds);
+    if (rounded < thresholds[name]) {
+      unit = name;
+      value = rounded;
+      break;
+    }
+  }
+
+  if (hasRelativeTimeFormat()) {
+    return new Intl.RelativeTimeFormat(locale, {
+      style: options.style ?? 'long',
+      numeric: options.numeric ?? 'always',
+    }).format(time.isNegative() ? -value : value, unit);
+  }
+
+  const fallback = pack ?? getLocale();
+  if (!fallback.relative) {
+    throw new RangeError(`Relative time phrases are not available for locale: ${fallback.locale}`);
+  }
+  const text = formatUnit(fallback, unit, value);
+  return (time.isNegative() ? fallback.relative.past : fallback.relative.future).replace(
+    '{0}',
+    text,
+  );
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { divideBigInt, roundBigIntToIncrement } from './rounding';
+import type { RoundingMode } from './rounding';
+
+describe('divideBigInt', () => {
+  const cases: [RoundingMode, number[]][] = [
+    // Expected results for -2.5, -1.5, -1.2, -0.5, 0.5, 1.2, 1.5, 2.5
+    ['floor', [-3, -2, -2, -1, 0, 1, 1, 2]],
+    ['ceil', [-2, -1, -1, 0, 1, 2, 2, 3]],
+    ['trunc', [-2, -1, -1, 0, 0, 1, 1, 2]],
+    ['halfUp', [-2, -1, -1, 0, 1, 1, 2, 3]],
+    ['halfEven', [-2, -2, -1, 0, 0, 1, 2, 2]],
+    ['halfAwayFromZero', [-3, -2, -1, -1, 1, 1, 2, 3]],
+  ];
+  const values = [-2.5, -1.5, -1.2, -0.5, 0.5, 1.2, 1.5, 2.5];
+
+  for (const [mode, expected] of cases) {
+    it(`should round the quotient with ${mode}`, () => {
+      expect(values.map((value) => divideBigInt(BigInt(value * 10), 10n, mode))).toEqual(
+        expected.map(BigInt),
+      );
+      expect(values.map((value) => divideBigInt(BigInt(value * -10), -10n, mode))).toEqual(
+        expected.map(BigInt),
+      );
+    });
+  }
+
+  it('should divide exactly beyond the safe integer range', () => {
+    expect(divideBigInt(10n ** 30n + 1n, 3n, 'floor')).toBe(333333333333333333333333333333n);
+  });
+
+  it('should throw error for division by zero', () => {
+    expect(() => divideBigInt(1n, 0n, 'floor')).toThrow(RangeError);
+  });
+});
+
+describe('roundBigIntToIncrement', () => {
+  it('should round to arbitrary increments', () => {
+    expect(roundBigIntToIncrement(37n, 15n, 'halfAwayFromZero')).toBe(30n);
+    expect(roundBigIntToIncrement(-38n, 15n, 'halfAwayFromZero')).toBe(-45n);
+    expect(roundBigIntToIncrement(31n, 6n, 'ceil')).toBe(36n);
+  });
+
+  it('should throw error for invalid increments', () => {
+    expect(() => roundBigIntToIncrement(1n, 0n, 'floor')).toThrow(RangeError);
+    expect(() => roundBigIntToIncrement(1n, -1n, 'floor')).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Rounding modes
+ *
+ * - floor: Toward negative infinity
+ * - ceil: Toward positive infinity
+ * - trunc: Toward zero
+ * - halfUp: To the nearest value, ties toward positive infinity (same as `Math.round`)
+ * - halfEven: To the nearest value, ties to the even multiple (banker's rounding)
+ * - halfAwayFromZero: To the nearest value, ties away from zero
+ */
+export type RoundingMode = 'floor' | 'ceil' | 'trunc' | 'halfUp' | 'halfEven' | 'halfAwayFromZero';
+
+/**
+ * Divides integers and rounds the quotient according to a rounding mode
+ *
+ * Unlike dividing numbers, the result is exact for arbitrarily large values.
+ *
+ * @param {bigint} dividend - Value to divide
+ * @param {bigint} divisor - Divisor (non-zero)
+ * @param {RoundingMode} mode - Rounding mode
+ * @returns {bigint} Rounded quotient
+ * @throws {RangeError} When the divisor is zero
+ */
+export const divideBigInt = (dividend: bigint, divisor: bigint, mode: RoundingMode): bigint => {
+  // BigInt division truncates toward zero, and the remainder has the sign of the dividend
+  const quotient = dividend / divisor;
+  const remainder = dividend % divisor;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const negative = dividend < 0n !== divisor < 0n;
+  const awayFromZero = negative ? quotient - 1n : quotient + 1n;
+  const doubledRemainder = 2n * (remainder < 0n ? -remainder : remainder);
+  const absoluteDivisor = divisor < 0n ? -divisor : divisor;
+
+  switch (mode) {
+    case 'floor':
+      return negative ? awayFromZero : quotient;
+    case 'ceil':
+      return negative ? quotient : awayFromZero;
+    case 'trunc':
+      return quotient;
+    default:
+      if (doubledRemainder !== absoluteDivisor) {
+        return doubledRemainder > absoluteDivisor ? awayFromZero : quotient;
+      }
+      if (mode === 'halfUp') {
+        return negative ? quotient : awayFromZero;
+      }
+      if (mode === 'halfEven') {
+        return quotient % 2n === 0n ? quotient : awayFromZero;
+      }
+      return awayFromZero;
+  }
+};
+
+/**
+ * Rounds an integer to a multiple of an increment
+ *
+ * @param {bigint} value - Value to round
+ * @param {bigint} increment - Rounding increment (positive)
+ * @param {RoundingMode} mode - Rounding mode
+ * @returns {bigint} Rounded value
+ * @throws {RangeError} When the increment is not positive
+ */
+export const roundBigIntToIncrement = (
+  value: bigint,
+  increment: bigint,
+  mode: RoundingMode,
+): bigint => {
+  if (increment <= 0n) {
+    throw new RangeError('Rounding increment must be a positive finite value');
+  }
+  return divideBigInt(value, increment, mode) * increment;
+};
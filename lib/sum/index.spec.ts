@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { EmptyCollectionError, SignedTime } from '../index';
+import {
+  average,
+  max,
+  median,
+  min,
+  percentile,
+  standardDeviation,
+  sum,
+  sumDurations,
+} from './index';
+
+describe('sum', () => {
+  it('should sum times', () => {
+    const times = [new SignedTime(1, 30), new SignedTime(0, 45), new SignedTime(-0, -15)];
+    expect(sum(times).toString()).toBe('02:00:00.000');
+  });
+
+  it('should return zero for an empty iterable', () => {
+    expect(sum([]).isZero()).toBe(true);
+  });
+
+  it('should accept any iterable', () => {
+    function* generate(): Generator<SignedTime> {
+      yield SignedTime.fromMinutes(10);
+      yield SignedTime.fromMinutes(20);
+    }
+    expect(sum(generate()).toString()).toBe('00:30:00.000');
+    expect(sum(new Set([SignedTime.fromHours(1)])).toString()).toBe('01:00:00.000');
+  });
+});
+
+describe('average', () => {
+  it('should calculate the mean', () => {
+    const times = [SignedTime.fromHours(1), SignedTime.fromHours(2)];
+    expect(average(times).toString()).toBe('01:30:00.000');
+  });
+
+  it('should throw error for an empty iterable', () => {
+    expect(() => average([])).toThrow('Cannot calculate average of an empty collection');
+    expect(() => average([])).toThrow(EmptyCollectionError);
+  });
+});
+
+describe('min and max', () => {
+  const times = [SignedTime.fromMinutes(5), SignedTime.fromMinutes(-10), SignedTime.fromHours(1)];
+
+  it('should get the smallest time', () => {
+    expect(min(times).toString()).toBe('-00:10:00.000');
+  });
+
+  it('should get the largest time', () => {
+    expect(max(times).toString()).toBe('01:00:00.000');
+  });
+
+  it('should throw error for an empty iterable', () => {
+    expect(() => min([])).toThrow('Cannot calculate min of an empty collection');
+    expect(() => max([])).toThrow('Cannot calculate max of an empty collection');
+    expect(() => min([])).toThrow(EmptyCollectionError);
+  });
+
+  it('should handle large iterables', () => {
+    const large = Array.from({ length: 200000 }, (_, i) => SignedTime.fromSeconds(i % 1000));
+    expect(min(large).isZero()).toBe(true);
+    expect(max(large).toString()).toBe('00:16:39.000');
+  });
+});
+
+describe('median', () => {
+  it('should get the middle value of an odd number of times', () => {
+    const times = [3, 1, 2].map((m) => SignedTime.fromMinutes(m));
+    expect(median(times).toString()).toBe('00:02:00.000');
+  });
+
+  it('should average the two middle values of an even number of times', () => {
+    const times = [4, 1, 3, 2].map((m) => SignedTime.fromMinutes(m));
+    expect(median(times).toString()).toBe('00:02:30.000');
+  });
+
+  it('should throw error for an empty iterable', () => {
+    expect(() => median([])).toThrow('Cannot calculate median of an empty collection');
+  });
+});
+
+describe('percentile', () => {
+  const times = [10, 20, 30, 40, 50].map((s) => SignedTime.fromSeconds(s));
+
+  it('should get the boundaries', () => {
+    expect(percentile(times, 0).toString()).toBe('00:00:10.000');
+    expect(percentile(times, 100).toString()).toBe('00:00:50.000');
+  });
+
+  it('should interpolate between closest ranks', () => {
+    expect(percentile(times, 50).toString()).toBe('00:00:30.000');
+    expect(percentile(times, 90).toString()).toBe('00:00:46.000');
+  });
+
+  it('should throw error for an out-of-range percentile', () => {
+    expect(() => percentile(times, -1)).toThrow('Percentile must be between 0 and 100');
+    expect(() => percentile(times, 101)).toThrow('Percentile must be between 0 and 100');
+    expect(() => percentile(times, NaN)).toThrow('Percentile must be between 0 and 100');
+    expect(() => percentile(times, 101)).toThrow(RangeError);
+  });
+});
+
+describe('standardDeviation', () => {
+  const times = [2, 4, 4, 4, 5, 5, 7, 9].map((s) => SignedTime.fromSeconds(s));
+
+  it('should calculate the population standard deviation', () => {
+    expect(standardDeviation(times).toString()).toBe('00:00:02.000');
+  });
+
+  it('should calculate the sample standard deviation', () => {
+    const result = standardDeviation(times, { sample: true });
+    expect(result.totalMilliseconds).toBeCloseTo(2138.09, 2);
+  });
+
+  it('should throw error for insufficient values', () => {
+    expect(() => standardDeviation([])).toThrow(EmptyCollectionError);
+    expect(() => standardDeviation([SignedTime.fromSeconds(1)], { sample: true })).toThrow(
+      RangeError,
+    );
+  });
+});
+
+describe('sumDurations', () => {
+  it('should sum the durations of date pairs', () => {
+    const total = sumDurations([
+      ['2024-01-01T09:00:00', '2024-01-01T12:00:00'],
+      [new Date('2024-01-01T13:00:00'), new Date('2024-01-01T18:30:00')],
+    ]);
+    expect(total.toString()).toBe('08:30:00.000');
+  });
+
+  it('should pass options to duration', () => {
+    const total = sumDurations([['2024-01-01T22:00:00', '2024-01-05T06:00:00']], {
+      mode: 'timeOfDay',
+    });
+    expect(total.toString()).toBe('08:00:00.000');
+  });
+
+  it('should throw error for invalid dates', () => {
+    expect(() => sumDurations([['invalid', '2024-01-01']])).toThrow('Invalid Date');
+  });
+});
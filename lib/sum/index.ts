@@ -0,0 +1,201 @@
+import { duration } from '../duration';
+import { EmptyCollectionError } from '../errors';
+import { SignedTime } from '../SignedTime';
+import type { DateLike, DurationOptions } from '../duration';
+
+/**
+ * Converts an iterable of times to an array, rejecting empty input
+ *
+ * @param {Iterable<SignedTime>} times - Times to convert
+ * @param {string} operation - Name of the calling operation (used in the error message)
+ * @returns {SignedTime[]} Non-empty array of times
+ * @throws {EmptyCollectionError} When the iterable is empty
+ */
+const toNonEmptyArray = (times: Iterable<SignedTime>, operation: string): SignedTime[] => {
+  const array = Array.from(times);
+  if (array.length === 0) {
+    throw new EmptyCollectionError(operation);
+  }
+  return array;
+};
+
+/**
+ * Sorts times in ascending order
+ *
+ * @param {SignedTime[]} times - Times to sort
+ * @returns {SignedTime[]} New sorted array
+ */
+const sortAscending = (times: SignedTime[]): SignedTime[] => [...times].sort(SignedTime.compare);
+
+/**
+ * Calculates the sum of times
+ *
+ * @param {Iterable<SignedTime>} times - Times to sum
+ * @returns {SignedTime} Sum of all times (zero for an empty iterable)
+ *
+ * @example
+ * ```typescript
+ * const total = sum([SignedTime.fromHours(1), SignedTime.fromMinutes(30)]);
+ * console.log(total.toString()); // "01:30:00.000"
+ * ```
+ */
+export const sum = (times: Iterable<SignedTime>): SignedTime => {
+  let total = new SignedTime();
+  for (const time of times) {
+    total = total.add(time);
+  }
+  return total;
+};
+
+/**
+ * Calculates the arithmetic mean of times
+ *
+ * @param {Iterable<SignedTime>} times - Times to average
+ * @returns {SignedTime} Average time
+ * @throws {EmptyCollectionError} When the iterable is empty
+ *
+ * @example
+ * ```typescript
+ * const avg = average([SignedTime.fromHours(1), SignedTime.fromHours(2)]);
+ * console.log(avg.toString()); // "01:30:00.000"
+ * ```
+ */
+export const average = (times: Iterable<SignedTime>): SignedTime => {
+  const array = toNonEmptyArray(times, 'average');
+  return sum(array).divide(array.length);
+};
+
+/**
+ * Gets the smallest time
+ *
+ * @param {Iterable<SignedTime>} times - Times to compare
+ * @returns {SignedTime} Smallest time
+ * @throws {EmptyCollectionError} When the iterable is empty
+ */
+export const min = (times: Iterable<SignedTime>): SignedTime =>
+  toNonEmptyArray(times, 'min').reduce((a, b) => (b.isLessThan(a) ? b : a));
+
+/**
+ * Gets the largest time
+ *
+ * @param {Iterable<SignedTime>} times - Times to compare
+ * @returns {SignedTime} Largest time
+ * @throws {EmptyCollectionError} When the iterable is empty
+ */
+export const max = (times: Iterable<SignedTime>): SignedTime =>
+  toNonEmptyArray(times, 'max').reduce((a, b) => (b.isGreaterThan(a) ? b : a));
+
+/**
+ * Calculates a percentile of times using linear interpolation between closest ranks
+ *
+ * @param {Iterable<SignedTime>} times - Times to evaluate
+ * @param {number} p - Percentile in the range 0 to 100
+ * @returns {SignedTime} Time at the given percentile
+ * @throws {EmptyCollectionError} When the iterable is empty
+ * @throws {RangeError} When the percentile is out of range
+ *
+ * @example
+ * ```typescript
+ * const times = [1, 2, 3, 4].map(SignedTime.fromMinutes);
+ * console.log(percentile(times, 50).toString()); // "00:02:30.000"
+ * ```
+ */
+export const percentile = (times: Iterable<SignedTime>, p: number): SignedTime => {
+  if (!(p >= 0 && p <= 100)) {
+    throw new RangeError('Percentile must be between 0 and 100');
+  }
+
+  const sorted = sortAscending(toNonEmptyArray(times, 'percentile'));
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = sorted[Math.floor(rank)] as SignedTime;
+  const upper = sorted[Math.ceil(rank)] as SignedTime;
+
+  return lower.add(upper.subtract(lower).multiply(rank - Math.floor(rank)));
+};
+
+/**
+ * Calculates the median of times
+ *
+ * For an even number of times, the average of the two middle values is returned.
+ *
+ * @param {Iterable<SignedTime>} times - Times to evaluate
+ * @returns {SignedTime} Median time
+ * @throws {EmptyCollectionError} When the iterable is empty
+ */
+export const median = (times: Iterable<SignedTime>): SignedTime => {
+  const sorted = sortAscending(toNonEmptyArray(times, 'median'));
+  const middle = Math.floor(sorted.length / 2);
+  const upper = sorted[middle] as SignedTime;
+
+  if (sorted.length % 2 === 1) {
+    return upper;
+  }
+  return (sorted[middle - 1] as SignedTime).add(upper).divide(2);
+};
+
+/**
+ * Calculates the standard deviation of times
+ *
+ * @param {Iterable<SignedTime>} times - Times to evaluate
+ * @param {Object} options - Calculation options
+ * @param {boolean} [options.sample] - If true, calculates the sample standard deviation
+ *   (divides by n - 1) instead of the population standard deviation (default: false)
+ * @returns {SignedTime} Standard deviation
+ * @throws {EmptyCollectionError} When the iterable is empty
+ * @throws {RangeError} When the iterable has a single element with `sample: true`
+ *
+ * @example
+ * ```typescript
+ * const times = [2, 4, 4, 4, 5, 5, 7, 9].map(SignedTime.fromSeconds);
+ * console.log(standardDeviation(times).toString()); // "00:00:02.000"
+ * ```
+ */
+export const standardDeviation = (
+  times: Iterable<SignedTime>,
+  options: {
+    /** If true, calculates the sample standard deviation */
+    sample?: boolean;
+  } = {},
+): SignedTime => {
+  const array = toNonEmptyArray(times, 'standard deviation');
+  const divisor = options.sample ? array.length - 1 : array.length;
+  if (divisor === 0) {
+    throw new RangeError('Cannot calculate sample standard deviation of a single value');
+  }
+
+  const mean = sum(array).totalMilliseconds / array.length;
+  const variance =
+    array.reduce((acc, time) => acc + (time.totalMilliseconds - mean) ** 2, 0) / divisor;
+
+  return SignedTime.fromMilliseconds(Math.sqrt(variance));
+};
+
+/**
+ * Calculates the total duration of `[from, to]` date pairs
+ *
+ * Each pair is measured with {@link duration}, so reversed pairs contribute negative time.
+ *
+ * @param {Iterable<readonly [DateLike, DateLike]>} ranges - Start and end date/time pairs
+ * @param {DurationOptions} options - Options passed to {@link duration} for each pair
+ * @returns {SignedTime} Total duration (zero for an empty iterable)
+ * @throws {InvalidDateError} When invalid dates are specified
+ *
+ * @example
+ * ```typescript
+ * const worked = sumDurations([
+ *   ['2024-01-01T09:00:00', '2024-01-01T12:00:00'],
+ *   ['2024-01-01T13:00:00', '2024-01-01T18:30:00'],
+ * ]);
+ * console.log(worked.toString()); // "08:30:00.000"
+ * ```
+ */
+export const sumDurations = (
+  ranges: Iterable<readonly [DateLike, DateLike]>,
+  options: DurationOptions = {},
+): SignedTime => {
+  let total = new SignedTime();
+  for (const [from, to] of ranges) {
+    total = total.add(duration(from, to, options));
+  }
+  return total;
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { fromWallClock, getWallClock, parseInTimeZone, wallClockToEpoch } from './timeZone';
+
+describe('getWallClock', () => {
+  it('should get the wall-clock fields in a time zone', () => {
+    expect(getWallClock(new Date('2024-01-01T15:30:45.123Z'), 'Asia/Tokyo')).toEqual({
+      year: 2024,
+      month: 1,
+      day: 2,
+      hour: 0,
+      minute: 30,
+      second: 45,
+      millisecond: 123,
+    });
+  });
+
+  it('should use the local time zone when none is given', () => {
+    const date = new Date(2024, 5, 15, 8, 5, 3, 7);
+    expect(getWallClock(date)).toEqual({
+      year: 2024,
+      month: 6,
+      day: 15,
+      hour: 8,
+      minute: 5,
+      second: 3,
+      millisecond: 7,
+    });
+  });
+
+  it('should throw a RangeError for an unknown time zone', () => {
+    expect(() => getWallClock(new Date(), 'Mars/Olympus')).toThrow(RangeError);
+  });
+});
+
+describe('wallClockToEpoch', () => {
+  it('should treat the fields as UTC', () => {
+    const epoch = wallClockToEpoch({
+      year: 2024,
+      month: 1,
+      day: 1,
+      hour: 10,
+      minute: 0,
+      second: 0,
+      millisecond: 500,
+    });
+    expect(epoch).toBe(Date.parse('2024-01-01T10:00:00.500Z'));
+  });
+});
+
+describe('fromWallClock', () => {
+  const wallClock = { year: 2024, month: 3, day: 10, minute: 30, second: 0, millisecond: 0 };
+
+  it('should convert wall-clock fields in a time zone to an instant', () => {
+    expect(fromWallClock({ ...wallClock, hour: 1 }, 'America/New_York').toISOString()).toBe(
+      '2024-03-10T06:30:00.000Z',
+    );
+    expect(fromWallClock({ ...wallClock, hour: 3 }, 'America/New_York').toISOString()).toBe(
+      '2024-03-10T07:30:00.000Z',
+    );
+  });
+
+  it('should shift times skipped by a forward transition forward', () => {
+    expect(fromWallClock({ ...wallClock, hour: 2 }, 'America/New_York').toISOString()).toBe(
+      '2024-03-10T07:30:00.000Z',
+    );
+  });
+
+  it('should resolve ambiguous times to the earlier instant', () => {
+    const ambiguous = { ...wallClock, month: 11, day: 3, hour: 1 };
+    expect(fromWallClock(ambiguous, 'America/New_York').toISOString()).toBe(
+      '2024-11-03T05:30:00.000Z',
+    );
+  });
+});
+
+describe('parseInTimeZone', () => {
+  it('should parse date-time strings without an offset in the time zone', () => {
+    expect(parseInTimeZone('2024-01-01T10:00:00', 'Asia/Tokyo')?.toISOString()).toBe(
+      '2024-01-01T01:00:00.000Z',
+    );
+    expect(parseInTimeZone('2024-01-01 10:00', 'UTC')?.toISOString()).toBe(
+      '2024-01-01T10:00:00.000Z',
+    );
+    expect(parseInTimeZone('2024-01-01', 'UTC')?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(parseInTimeZone('2024-01-01T10:00:00.1234', 'UTC')?.toISOString()).toBe(
+      '2024-01-01T10:00:00.123Z',
+    );
+  });
+
+  it('should return undefined for strings with an offset or another format', () => {
+    expect(parseInTimeZone('2024-01-01T10:00:00Z', 'UTC')).toBeUndefined();
+    expect(parseInTimeZone('2024-01-01T10:00:00+09:00', 'UTC')).toBeUndefined();
+    expect(parseInTimeZone('January 1, 2024', 'UTC')).toBeUndefined();
+  });
+
+  it('should return an invalid date for out-of-range fields', () => {
+    expect(parseInTimeZone('2024-02-30T10:00:00', 'UTC')?.getTime()).toBeNaN();
+    expect(parseInTimeZone('2024-01-01T24:00:00', 'UTC')?.getTime()).toBeNaN();
+  });
+});
@@ -0,0 +1,235 @@
+/** Wall-clock date and time fields, as shown on a clock in a time zone */
+export interface WallClock {
+  year: number;
+  /** Month (1-12) */
+  month: number;
+  /** Day of the month (1-31) */
+  day: number;
+  /** Hour (0-23) */
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/** Cached formatters for extracting wall-clock fields, keyed by time zone */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a formatter that outputs numeric wall-clock fields in a time zone
+ *
+ * @param {string} timeZone - IANA time zone name or 'UTC'
+ * @returns {Intl.DateTimeFormat} Formatter
+ * @throws {RangeError} When the time zone is invalid
+ */
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Validates a time zone name
+ *
+ * @param {string} timeZone - IANA time zone name or 'UTC'
+ * @throws {RangeError} When the time zone is invalid
+ */
+export const assertTimeZone = (timeZone: string): void => {
+  getFormatter(timeZone);
+};
+
+/**
+ * Gets the wall-clock fields of an instant
+ *
+ * @param {Date} date - Instant
+ * @param {string} [timeZone] - IANA time zone name or 'UTC' (default: local time zone of the runtime)
+ * @returns {WallClock} Wall-clock fields
+ * @throws {RangeError} When the time zone is invalid
+ */
+export const getWallClock = (date: Date, timeZone?: string): WallClock => {
+  if (timeZone === undefined) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+    };
+  }
+
+  const fields: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    fields[part.type] = Number(part.value);
+  }
+  return {
+    year: fields.year ?? 0,
+    month: fields.month ?? 1,
+    day: fields.day ?? 1,
+    hour: fields.hour ?? 0,
+    minute: fields.minute ?? 0,
+    second: fields.second ?? 0,
+    millisecond: date.getTime() - Math.floor(date.getTime() / 1000) * 1000,
+  };
+};
+
+/**
+ * Converts wall-clock fields to milliseconds since the epoch as if they were in UTC
+ *
+ * The difference between two such values is the wall-clock difference, which ignores
+ * changes in the UTC offset such as daylight saving time transitions.
+ *
+ * @param {WallClock} wallClock - Wall-clock fields
+ * @returns {number} Milliseconds
+ */
+export const wallClockToEpoch = (wallClock: WallClock): number => {
+  const date = new Date(0);
+  date.setUTCFullYear(wallClock.year, wallClock.month - 1, wallClock.day);
+  date.setUTCHours(wallClock.hour, wallClock.minute, wallClock.second, wallClock.millisecond);
+  return date.getTime();
+};
+
+/**
+ * Converts milliseconds since the epoch back to wall-clock fields, as the inverse of
+ * {@link wallClockToEpoch}
+ *
+ * @param {number} epoch - Wall-clock milliseconds
+ * @returns {WallClock} Wall-clock fields
+ */
+export const epochToWallClock = (epoch: number): WallClock => {
+  const date = new Date(epoch);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+  };
+};
+
+/**
+ * Gets midnight of the day containing an instant as wall-clock milliseconds
+ *
+ * Consecutive days are exactly 24 hours apart in this representation, regardless of
+ * daylight saving time transitions.
+ *
+ * @param {Date} date - Instant
+ * @param {string} [timeZone] - IANA time zone name or 'UTC' (default: local time zone of the runtime)
+ * @returns {number} Wall-clock milliseconds of midnight
+ * @throws {RangeError} When the time zone is invalid
+ */
+export const startOfDay = (date: Date, timeZone?: string): number =>
+  wallClockToEpoch({
+    ...getWallClock(date, timeZone),
+    hour: 0,
+    minute: 0,
+    second: 0,
+    millisecond: 0,
+  });
+
+/**
+ * Gets the 'YYYY-MM-DD' key of the day containing wall-clock milliseconds
+ *
+ * @param {number} epoch - Wall-clock milliseconds
+ * @returns {string} Date key
+ */
+export const toDateKey = (epoch: number): string => new Date(epoch).toISOString().slice(0, 10);
+
+/**
+ * Gets the UTC offset of a time zone at an instant
+ *
+ * @param {number} epoch - Instant in milliseconds since the epoch
+ * @param {string} [timeZone] - IANA time zone name or 'UTC' (default: local time zone of the runtime)
+ * @returns {number} Offset in milliseconds (positive east of UTC)
+ */
+const getOffset = (epoch: number, timeZone?: string): number =>
+  wallClockToEpoch(getWallClock(new Date(epoch), timeZone)) - epoch;
+
+/**
+ * Converts wall-clock fields in a time zone to an instant
+ *
+ * Wall-clock times skipped by a forward transition (e.g. 02:30 when clocks jump from 02:00
+ * to 03:00) are shifted forward by the length of the transition. Ambiguous wall-clock
+ * times repeated by a backward transition resolve to the earlier instant.
+ *
+ * @param {WallClock} wallClock - Wall-clock fields
+ * @param {string} [timeZone] - IANA time zone name or 'UTC' (default: local time zone of the runtime)
+ * @returns {Date} Instant
+ * @throws {RangeError} When the time zone is invalid
+ */
+export const fromWallClock = (wallClock: WallClock, timeZone?: string): Date => {
+  const local = wallClockToEpoch(wallClock);
+
+  // The offset is evaluated around the target, since it may differ on either side of a transition
+  const offsetBefore = getOffset(local - 86400000, timeZone);
+  const offsetAfter = getOffset(local + 86400000, timeZone);
+  const candidates = [local - offsetBefore, local - offsetAfter].filter(
+    (epoch) => getOffset(epoch, timeZone) === local - epoch,
+  );
+
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+  // Skipped by a forward transition
+  return new Date(local - offsetBefore);
+};
+
+/** Date-time string without a UTC offset (e.g. '2024-01-01T10:00:00' or '2024-01-01') */
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+
+/**
+ * Parses an ISO 8601 date-time string without a UTC offset as wall-clock time in a time zone
+ *
+ * @param {string} value - Date-time string
+ * @param {string} timeZone - IANA time zone name or 'UTC'
+ * @returns {Date | undefined} Instant (an invalid Date when a field is out of range),
+ *   or undefined when the string has an offset or another format
+ * @throws {RangeError} When the time zone is invalid
+ */
+export const parseInTimeZone = (value: string, timeZone: string): Date | undefined => {
+  const match = value.trim().match(LOCAL_DATE_TIME_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  const wallClock: WallClock = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+    millisecond: Number((fraction ?? '').padEnd(3, '0')),
+  };
+
+  // Reject out-of-range fields instead of letting them overflow into the next unit
+  const normalized = new Date(wallClockToEpoch(wallClock));
+  if (
+    normalized.getUTCMonth() + 1 !== wallClock.month ||
+    normalized.getUTCDate() !== wallClock.day ||
+    normalized.getUTCHours() !== wallClock.hour ||
+    normalized.getUTCMinutes() !== wallClock.minute ||
+    normalized.getUTCSeconds() !== wallClock.second
+  ) {
+    return new Date(NaN);
+  }
+
+  return fromWallClock(wallClock, timeZone);
+};
@@ -0,0 +1,293 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { TimerStateError } from '../errors';
+import { SignedTime } from '../SignedTime';
+import { Countdown, Stopwatch } from './index';
+
+/** Clock that only advances when told to */
+const createClock = (): { clock: () => number; advance: (milliseconds: number) => void } => {
+  let now = 1000;
+  return {
+    clock: (): number => now,
+    advance: (milliseconds): void => {
+      now += milliseconds;
+    },
+  };
+};
+
+describe('Stopwatch', () => {
+  it('should measure elapsed time', () => {
+    const { clock, advance } = createClock();
+    const stopwatch = new Stopwatch({ clock });
+    expect(stopwatch.state).toBe('idle');
+    expect(stopwatch.elapsed.isZero()).toBe(true);
+
+    stopwatch.start();
+    advance(1500);
+    expect(stopwatch.state).toBe('running');
+    expect(stopwatch.elapsed.totalMilliseconds).toBe(1500);
+  });
+
+  it('should exclude paused time', () => {
+    const { clock, advance } = createClock();
+    const stopwatch = new Stopwatch({ clock }).start();
+    advance(1000);
+    stopwatch.pause();
+    advance(5000);
+    expect(stopwatch.state).toBe('paused');
+    expect(stopwatch.elapsed.totalMilliseconds).toBe(1000);
+
+    stopwatch.resume();
+    advance(500);
+    expect(stopwatch.elapsed.totalMilliseconds).toBe(1500);
+  });
+
+  it('should keep the elapsed time after stopping', () => {
+    const { clock, advance } = createClock();
+    const stopwatch = new Stopwatch({ clock }).start();
+    advance(2000);
+    expect(stopwatch.stop().totalMilliseconds).toBe(2000);
+    advance(1000);
+    expect(stopwatch.state).toBe('stopped');
+    expect(stopwatch.elapsed.totalMilliseconds).toBe(2000);
+  });
+
+  it('should accept fractional clock readings', () => {
+    const { clock, advance } = createClock();
+    const stopwatch = new Stopwatch({ clock }).start();
+    advance(0.25);
+    expect(stopwatch.elapsed.totalMicroseconds).toBe(250);
+  });
+
+  it('should record laps and splits', () => {
+    const { clock, advance } = createClock();
+    const stopwatch = new Stopwatch({ clock }).start();
+    advance(1000);
+    expect(stopwatch.lap().totalMilliseconds).toBe(1000);
+    advance(1200);
+    expect(stopwatch.split().totalMilliseconds).toBe(2200);
+    advance(800);
+    expect(stopwatch.lap().totalMilliseconds).toBe(800);
+
+    expect(
+      stopwatch.laps.map(({ lap, split }) => [lap.totalMilliseconds, split.totalMilliseconds]),
+    ).toEqual([
+      [1000, 1000],
+      [1200, 2200],
+      [800, 3000],
+    ]);
+  });
+
+  it('should reset to the idle state', () => {
+    const { clock, advance } = createClock();
+    const stopwatch = new Stopwatch({ clock }).start();
+    advance(1000);
+    stopwatch.lap();
+    stopwatch.stop();
+
+    stopwatch.reset();
+    expect(stopwatch.state).toBe('idle');
+    expect(stopwatch.elapsed.isZero()).toBe(true);
+    expect(stopwatch.laps).toEqual([]);
+
+    stopwatch.start();
+    advance(300);
+    expect(stopwatch.elapsed.totalMilliseconds).toBe(300);
+  });
+
+  it('should reject invalid transitions', () => {
+    const stopwatch = new Stopwatch();
+    expect(() => stopwatch.pause()).toThrow('Cannot pause a timer that is idle');
+    expect(() => stopwatch.lap()).toThrow('Cannot lap a timer that is idle');
+    expect(() => stopwatch.stop()).toThrow('Cannot stop a timer that is idle');
+
+    stopwatch.start();
+    expect(() => stopwatch.start()).toThrow('Cannot start a timer that is running');
+    expect(() => stopwatch.resume()).toThrow('Cannot resume a timer that is running');
+
+    stopwatch.stop();
+    expect(() => stopwatch.resume()).toThrow('Cannot resume a timer that is stopped');
+    expect(() => stopwatch.split()).toThrow('Cannot split a timer that is stopped');
+    expect(() => stopwatch.start()).toThrow(TimerStateError);
+  });
+
+  it('should use a real clock by default', () => {
+    const stopwatch = new Stopwatch().start();
+    expect(stopwatch.elapsed.isNegative()).toBe(false);
+  });
+});
+
+describe('Countdown', () => {
+  it('should calculate the remaining time', () => {
+    const { clock, advance } = createClock();
+    const countdown = new Countdown(SignedTime.fromSeconds(10), {
+      clock,
+      interval: new SignedTime(),
+    });
+    expect(countdown.remaining.totalMilliseconds).toBe(10000);
+
+    countdown.start();
+    advance(4000);
+    expect(countdown.elapsed.totalMilliseconds).toBe(4000);
+    expect(countdown.remaining.totalMilliseconds).toBe(6000);
+    expect(countdown.expired).toBe(false);
+  });
+
+  it('should report the overrun as a negative remaining time', () => {
+    const { clock, advance } = createClock();
+    const countdown = new Countdown(SignedTime.fromSeconds(10), {
+      clock,
+      interval: new SignedTime(),
+    });
+    countdown.start();
+    advance(12000);
+    expect(countdown.tick().toString()).toBe('-00:00:02.000');
+    expect(countdown.expired).toBe(true);
+    expect(countdown.stop().totalMilliseconds).toBe(-2000);
+  });
+
+  it('should call the callbacks on manual ticks', () => {
+    const { clock, advance } = createClock();
+    const onTick = vi.fn();
+    const onExpire = vi.fn();
+    const countdown = new Countdown(SignedTime.fromSeconds(2), {
+      clock,
+      interval: new SignedTime(),
+      onTick,
+      onExpire,
+    });
+    countdown.start();
+
+    advance(1000);
+    countdown.tick();
+    expect(onTick).toHaveBeenLastCalledWith(SignedTime.fromSeconds(1), countdown);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    advance(1000);
+    countdown.tick();
+    advance(1000);
+    countdown.tick();
+    expect(onTick).toHaveBeenCalledTimes(3);
+    expect(onExpire).toHaveBeenCalledOnce();
+    expect(onExpire).toHaveBeenCalledWith(countdown);
+  });
+
+  it('should exclude paused time', () => {
+    const { clock, advance } = createClock();
+    const countdown = new Countdown(SignedTime.fromSeconds(10), {
+      clock,
+      interval: new SignedTime(),
+    });
+    countdown.start();
+    advance(3000);
+    countdown.pause();
+    advance(60000);
+    countdown.resume();
+    advance(1000);
+    expect(countdown.remaining.totalMilliseconds).toBe(6000);
+  });
+
+  it('should notify the expiry again after a reset', () => {
+    const { clock, advance } = createClock();
+    const onExpire = vi.fn();
+    const countdown = new Countdown(SignedTime.fromSeconds(1), {
+      clock,
+      interval: new SignedTime(),
+      onExpire,
+    });
+    countdown.start();
+    advance(1000);
+    countdown.tick();
+
+    countdown.reset();
+    expect(countdown.state).toBe('idle');
+    expect(countdown.remaining.totalMilliseconds).toBe(1000);
+    countdown.start();
+    advance(1000);
+    countdown.tick();
+    expect(onExpire).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject a negative interval', () => {
+    expect(
+      () => new Countdown(SignedTime.fromSeconds(1), { interval: SignedTime.fromSeconds(-1) }),
+    ).toThrow('Countdown interval must not be negative');
+    expect(
+      () => new Countdown(SignedTime.fromSeconds(1), { interval: SignedTime.fromSeconds(-1) }),
+    ).toThrow(RangeError);
+  });
+
+  describe('automatic ticks', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should tick at the interval and expire on time', () => {
+      const onTick = vi.fn();
+      const onExpire = vi.fn();
+      const countdown = new Countdown(SignedTime.fromMilliseconds(2500), {
+        clock: (): number => Date.now(),
+        onTick,
+        onExpire,
+      }).start();
+
+      vi.advanceTimersByTime(2000);
+      expect(onTick.mock.calls.map(([remaining]) => remaining.totalMilliseconds)).toEqual([
+        1500, 500,
+      ]);
+      expect(onExpire).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(500);
+      expect(onExpire).toHaveBeenCalledOnce();
+
+      vi.advanceTimersByTime(1000);
+      expect(onTick).toHaveBeenLastCalledWith(SignedTime.fromMilliseconds(-500), countdown);
+      expect(onExpire).toHaveBeenCalledOnce();
+    });
+
+    it('should not tick while paused or after stopping', () => {
+      const onTick = vi.fn();
+      const countdown = new Countdown(SignedTime.fromSeconds(10), {
+        clock: (): number => Date.now(),
+        onTick,
+      }).start();
+
+      vi.advanceTimersByTime(1000);
+      countdown.pause();
+      vi.advanceTimersByTime(5000);
+      expect(onTick).toHaveBeenCalledTimes(1);
+
+      countdown.resume();
+      vi.advanceTimersByTime(1000);
+      expect(onTick).toHaveBeenLastCalledWith(SignedTime.fromSeconds(8), countdown);
+
+      countdown.stop();
+      vi.advanceTimersByTime(20000);
+      expect(onTick).toHaveBeenCalledTimes(2);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should expire on time after more than 25 days', () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+      const onExpire = vi.fn();
+      new Countdown(SignedTime.fromDays(30), {
+        clock: (): number => Date.now(),
+        interval: SignedTime.fromHours(1),
+        onExpire,
+      }).start();
+
+      vi.advanceTimersByTime(SignedTime.fromDays(30).totalMilliseconds - 1);
+      expect(onExpire).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(onExpire).toHaveBeenCalledOnce();
+      for (const [, delay] of setTimeoutSpy.mock.calls) {
+        expect(delay).toBeLessThanOrEqual(2_147_483_647);
+      }
+      setTimeoutSpy.mockRestore();
+    });
+  });
+});
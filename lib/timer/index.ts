@@ -0,0 +1,521 @@
+import { TimerStateError } from '../errors';
+import { SignedTime } from '../SignedTime';
+
+/**
+ * Source of the current time in milliseconds
+ *
+ * Only differences between readings are used, so any monotonic origin works, such as
+ * `performance.now()` or `Date.now()`.
+ */
+export type Clock = () => number;
+
+/**
+ * State of a stopwatch or countdown
+ *
+ * - `idle`: not started yet, or reset
+ * - `running`: measuring time
+ * - `paused`: suspended; can be resumed
+ * - `stopped`: finished; must be reset before starting again
+ */
+export type TimerState = 'idle' | 'running' | 'paused' | 'stopped';
+
+/** Options for a stopwatch */
+export interface StopwatchOptions {
+  /** Source of the current time (default: `performance.now()`, or `Date.now()` where unavailable) */
+  clock?: Clock;
+}
+
+/** Time recorded by {@link Stopwatch#lap} or {@link Stopwatch#split} */
+export interface StopwatchLap {
+  /** Time since the previous lap (or the start, for the first lap) */
+  lap: SignedTime;
+  /** Total elapsed time at the lap */
+  split: SignedTime;
+}
+
+/** Options for a countdown */
+export interface CountdownOptions {
+  /** Source of the current time (default: `performance.now()`, or `Date.now()` where unavailable) */
+  clock?: Clock;
+  /**
+   * Interval between automatic ticks while running (default: 1 second).
+   * A zero interval disables all timers, so the countdown only advances through {@link Countdown#tick}.
+   */
+  interval?: SignedTime;
+  /** Called on every tick with the remaining time, which is negative after expiry */
+  onTick?: (remaining: SignedTime, countdown: Countdown) => void;
+  /** Called once when the remaining time reaches zero */
+  onExpire?: (countdown: Countdown) => void;
+}
+
+/** Longest delay `setTimeout` accepts; longer delays fire immediately */
+const MAX_TIMEOUT = 2_147_483_647;
+
+/** Default clock, preferring the monotonic `performance.now()` */
+const defaultClock: Clock =
+  typeof performance === 'undefined' ? (): number => Date.now() : (): number => performance.now();
+
+/**
+ * Asserts that a timer is in one of the expected states
+ *
+ * @param {TimerState} state - Current state
+ * @param {TimerState[]} expected - States in which the operation is allowed
+ * @param {string} operation - Name of the operation (used in the error message)
+ * @throws {TimerStateError} When the state is not one of the expected states
+ */
+const assertState = (
+  state: TimerState,
+  expected: readonly TimerState[],
+  operation: string,
+): void => {
+  if (!expected.includes(state)) {
+    throw new TimerStateError(operation, state);
+  }
+};
+
+/**
+ * Class measuring elapsed time, with laps and splits
+ *
+ * @example
+ * ```typescript
+ * const stopwatch = new Stopwatch().start();
+ * // ...
+ * stopwatch.lap(); // time of the first lap
+ * // ...
+ * stopwatch.pause();
+ * stopwatch.resume();
+ * // ...
+ * const total = stopwatch.stop();
+ * console.log(stopwatch.laps.map(({ lap }) => lap.toString()));
+ * ```
+ */
+export class Stopwatch {
+  /** Source of the current time */
+  #clock: Clock;
+
+  /** Current state */
+  #state: TimerState = 'idle';
+
+  /** Time measured before the current run, in milliseconds */
+  #accumulated = 0;
+
+  /** Clock reading at the start of the current run */
+  #startedAt = 0;
+
+  /** Recorded laps */
+  #laps: StopwatchLap[] = [];
+
+  /**
+   * Creates a Stopwatch instance in the idle state
+   *
+   * @param {StopwatchOptions} options - Stopwatch options
+   * @param {Clock} [options.clock] - Source of the current time (default: `performance.now()`)
+   *
+   * @example
+   * ```typescript
+   * let now = 0;
+   * const stopwatch = new Stopwatch({ clock: () => now });
+   * ```
+   */
+  constructor(options: StopwatchOptions = {}) {
+    this.#clock = options.clock ?? defaultClock;
+  }
+
+  /**
+   * Current state
+   *
+   * @returns {TimerState} Current state
+   */
+  get state(): TimerState {
+    return this.#state;
+  }
+
+  /**
+   * Total elapsed time, excluding paused time
+   *
+   * @returns {SignedTime} Elapsed time
+   */
+  get elapsed(): SignedTime {
+    return SignedTime.fromMilliseconds(this.#elapsedMilliseconds(this.#clock()));
+  }
+
+  /**
+   * Recorded laps, in order
+   *
+   * @returns {StopwatchLap[]} Copy of the recorded laps
+   */
+  get laps(): StopwatchLap[] {
+    return [...this.#laps];
+  }
+
+  /**
+   * Starts measuring
+   *
+   * @returns {Stopwatch} This instance
+   * @throws {TimerStateError} When the stopwatch is not idle
+   */
+  start(): this {
+    assertState(this.#state, ['idle'], 'start');
+    this.#state = 'running';
+    this.#startedAt = this.#clock();
+    return this;
+  }
+
+  /**
+   * Suspends measuring until {@link resume} is called
+   *
+   * @returns {Stopwatch} This instance
+   * @throws {TimerStateError} When the stopwatch is not running
+   */
+  pause(): this {
+    assertState(this.#state, ['running'], 'pause');
+    this.#accumulated = this.#elapsedMilliseconds(this.#clock());
+    this.#state = 'paused';
+    return this;
+  }
+
+  /**
+   * Resumes measuring after {@link pause}
+   *
+   * @returns {Stopwatch} This instance
+   * @throws {TimerStateError} When the stopwatch is not paused
+   */
+  resume(): this {
+    assertState(this.#state, ['paused'], 'resume');
+    this.#state = 'running';
+    this.#startedAt = this.#clock();
+    return this;
+  }
+
+  /**
+   * Finishes measuring
+   *
+   * The elapsed time is kept until {@link reset} is called.
+   *
+   * @returns {SignedTime} Total elapsed time
+   * @throws {TimerStateError} When the stopwatch is neither running nor paused
+   */
+  stop(): SignedTime {
+    assertState(this.#state, ['running', 'paused'], 'stop');
+    this.#accumulated = this.#elapsedMilliseconds(this.#clock());
+    this.#state = 'stopped';
+    return SignedTime.fromMilliseconds(this.#accumulated);
+  }
+
+  /**
+   * Returns to the idle state, clearing the elapsed time and the laps
+   *
+   * @returns {Stopwatch} This instance
+   */
+  reset(): this {
+    this.#state = 'idle';
+    this.#accumulated = 0;
+    this.#laps = [];
+    return this;
+  }
+
+  /**
+   * Records a lap
+   *
+   * @returns {SignedTime} Time since the previous lap (or the start, for the first lap)
+   * @throws {TimerStateError} When the stopwatch is neither running nor paused
+   *
+   * @example
+   * ```typescript
+   * const lap = stopwatch.lap();
+   * ```
+   */
+  lap(): SignedTime {
+    return this.#record('lap').lap;
+  }
+
+  /**
+   * Records a lap and returns the total elapsed time at it
+   *
+   * @returns {SignedTime} Total elapsed time
+   * @throws {TimerStateError} When the stopwatch is neither running nor paused
+   *
+   * @example
+   * ```typescript
+   * const split = stopwatch.split();
+   * ```
+   */
+  split(): SignedTime {
+    return this.#record('split').split;
+  }
+
+  /**
+   * Calculates the elapsed time at a clock reading
+   *
+   * @param {number} now - Clock reading
+   * @returns {number} Elapsed milliseconds
+   */
+  #elapsedMilliseconds(now: number): number {
+    return this.#state === 'running'
+      ? this.#accumulated + now - this.#startedAt
+      : this.#accumulated;
+  }
+
+  /**
+   * Records a lap at the current time
+   *
+   * @param {string} operation - Name of the calling operation (used in the error message)
+   * @returns {StopwatchLap} Recorded lap
+   * @throws {TimerStateError} When the stopwatch is neither running nor paused
+   */
+  #record(operation: string): StopwatchLap {
+    assertState(this.#state, ['running', 'paused'], operation);
+    const split = SignedTime.fromMilliseconds(this.#elapsedMilliseconds(this.#clock()));
+    const previous = this.#laps[this.#laps.length - 1]?.split ?? new SignedTime();
+    const lap = { lap: split.subtract(previous), split };
+    this.#laps.push(lap);
+    return lap;
+  }
+}
+
+/**
+ * Class counting down from a duration
+ *
+ * The countdown keeps running after it expires, so the remaining time becomes negative
+ * and shows how far it has overrun until it is stopped.
+ *
+ * @example
+ * ```typescript
+ * const countdown = new Countdown(SignedTime.fromMinutes(5), {
+ *   onTick: (remaining) => render(remaining.toString('mm:ss')),
+ *   onExpire: () => notify('Time is up'),
+ * });
+ * countdown.start();
+ * ```
+ */
+export class Countdown {
+  /** Duration to count down from */
+  #duration: SignedTime;
+
+  /** Stopwatch measuring the elapsed time */
+  #stopwatch: Stopwatch;
+
+  /** Interval between automatic ticks in milliseconds (0: disabled) */
+  #interval: number;
+
+  /** Tick callback */
+  #onTick: CountdownOptions['onTick'];
+
+  /** Expiry callback */
+  #onExpire: CountdownOptions['onExpire'];
+
+  /** Whether the expiry callback has been called */
+  #expireNotified = false;
+
+  /** Timer of automatic ticks */
+  #tickTimer: ReturnType<typeof setInterval> | undefined;
+
+  /** Timer firing at the expiry */
+  #expireTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Creates a Countdown instance in the idle state
+   *
+   * @param {SignedTime} duration - Duration to count down from
+   * @param {CountdownOptions} options - Countdown options
+   * @param {Clock} [options.clock] - Source of the current time (default: `performance.now()`)
+   * @param {SignedTime} [options.interval] - Interval between automatic ticks (default: 1 second, zero: disabled)
+   * @param {Function} [options.onTick] - Called on every tick with the remaining time
+   * @param {Function} [options.onExpire] - Called once when the remaining time reaches zero
+   * @throws {RangeError} When the interval is negative
+   *
+   * @example
+   * ```typescript
+   * // Deterministic countdown driven by hand
+   * let now = 0;
+   * const countdown = new Countdown(SignedTime.fromSeconds(10), {
+   *   clock: () => now,
+   *   interval: new SignedTime(),
+   * });
+   * countdown.start();
+   * now = 12000;
+   * countdown.tick().toString(); // "-00:00:02.000"
+   * ```
+   */
+  constructor(duration: SignedTime, options: CountdownOptions = {}) {
+    const interval = options.interval ?? SignedTime.fromSeconds(1);
+    if (interval.isNegative()) {
+      throw new RangeError('Countdown interval must not be negative');
+    }
+
+    this.#duration = duration;
+    this.#stopwatch = new Stopwatch(options.clock ? { clock: options.clock } : {});
+    this.#interval = interval.totalMilliseconds;
+    this.#onTick = options.onTick;
+    this.#onExpire = options.onExpire;
+  }
+
+  /**
+   * Duration to count down from
+   *
+   * @returns {SignedTime} Duration
+   */
+  get duration(): SignedTime {
+    return this.#duration;
+  }
+
+  /**
+   * Current state
+   *
+   * @returns {TimerState} Current state
+   */
+  get state(): TimerState {
+    return this.#stopwatch.state;
+  }
+
+  /**
+   * Elapsed time, excluding paused time
+   *
+   * @returns {SignedTime} Elapsed time
+   */
+  get elapsed(): SignedTime {
+    return this.#stopwatch.elapsed;
+  }
+
+  /**
+   * Remaining time, negative by the overrun after expiry
+   *
+   * @returns {SignedTime} Remaining time
+   */
+  get remaining(): SignedTime {
+    return this.#duration.subtract(this.#stopwatch.elapsed);
+  }
+
+  /**
+   * Whether the remaining time has reached zero
+   *
+   * @returns {boolean} True if expired
+   */
+  get expired(): boolean {
+    return this.remaining.compareTo(new SignedTime()) <= 0;
+  }
+
+  /**
+   * Starts counting down
+   *
+   * @returns {Countdown} This instance
+   * @throws {TimerStateError} When the countdown is not idle
+   */
+  start(): this {
+    this.#stopwatch.start();
+    this.#schedule();
+    return this;
+  }
+
+  /**
+   * Suspends counting down until {@link resume} is called
+   *
+   * @returns {Countdown} This instance
+   * @throws {TimerStateError} When the countdown is not running
+   */
+  pause(): this {
+    this.#stopwatch.pause();
+    this.#unschedule();
+    return this;
+  }
+
+  /**
+   * Resumes counting down after {@link pause}
+   *
+   * @returns {Countdown} This instance
+   * @throws {TimerStateError} When the countdown is not paused
+   */
+  resume(): this {
+    this.#stopwatch.resume();
+    this.#schedule();
+    return this;
+  }
+
+  /**
+   * Finishes counting down
+   *
+   * The remaining time is kept until {@link reset} is called.
+   *
+   * @returns {SignedTime} Remaining time, negative by the overrun after expiry
+   * @throws {TimerStateError} When the countdown is neither running nor paused
+   */
+  stop(): SignedTime {
+    this.#stopwatch.stop();
+    this.#unschedule();
+    return this.remaining;
+  }
+
+  /**
+   * Returns to the idle state with the full duration remaining
+   *
+   * @returns {Countdown} This instance
+   */
+  reset(): this {
+    this.#stopwatch.reset();
+    this.#unschedule();
+    this.#expireNotified = false;
+    return this;
+  }
+
+  /**
+   * Calls the tick callback, and the expiry callback if the countdown has just expired
+   *
+   * This is called automatically at the interval while running, and can also be called
+   * by hand (e.g. from `requestAnimationFrame`).
+   *
+   * @returns {SignedTime} Remaining time
+   */
+  tick(): SignedTime {
+    const remaining = this.remaining;
+    this.#onTick?.(remaining, this);
+    if (!this.#expireNotified && remaining.compareTo(new SignedTime()) <= 0) {
+      this.#expireNotified = true;
+      this.#onExpire?.(this);
+    }
+    return remaining;
+  }
+
+  /**
+   * Starts the timers of automatic ticks and the expiry
+   */
+  #schedule(): void {
+    if (this.#interval === 0) {
+      return;
+    }
+    this.#tickTimer = setInterval(() => this.tick(), this.#interval);
+    this.#scheduleExpiry();
+  }
+
+  /**
+   * Starts a timer firing at the expiry, so it is not delayed until the next tick
+   */
+  #scheduleExpiry(): void {
+    if (this.#expireNotified) {
+      return;
+    }
+    this.#expireTimer = setTimeout(
+      () => {
+        if (this.#expireNotified) {
+          return;
+        }
+        if (this.expired) {
+          this.tick();
+        } else {
+          // The timer fired earlier than the clock, or the delay was capped at MAX_TIMEOUT
+          this.#scheduleExpiry();
+        }
+      },
+      Math.min(Math.max(this.remaining.totalMilliseconds, 0), MAX_TIMEOUT),
+    );
+  }
+
+  /**
+   * Stops the timers
+   */
+  #unschedule(): void {
+    clearInterval(this.#tickTimer);
+    clearTimeout(this.#expireTimer);
+    this.#tickTimer = undefined;
+    this.#expireTimer = undefined;
+  }
+}
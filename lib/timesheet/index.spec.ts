@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import { SignedTime } from '../SignedTime';
+import { calculateTimesheet } from './index';
+import type { TimesheetBreakdown, TimesheetEntry } from './index';
+
+const hours = SignedTime.fromHours;
+const utc = { timeZone: 'UTC' };
+
+/** Converts a breakdown to strings for comparison */
+const format = (breakdown: TimesheetBreakdown): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(breakdown)
+      .filter(([, value]) => value instanceof SignedTime)
+      .map(([key, value]) => [key, (value as SignedTime).toString('h:mm')]),
+  );
+
+describe('calculateTimesheet', () => {
+  it('should sum entries per day and in total', () => {
+    const { total, days } = calculateTimesheet(
+      [
+        ['2024-01-01T09:00:00', '2024-01-01T12:00:00'],
+        ['2024-01-01T13:00:00', '2024-01-01T17:30:00'],
+        ['2024-01-02T10:00:00', '2024-01-02T15:00:00'],
+      ],
+      utc,
+    );
+    expect(days.map((day) => [day.date, day.worked.toString('h:mm')])).toEqual([
+      ['2024-01-01', '7:30'],
+      ['2024-01-02', '5:00'],
+    ]);
+    expect(format(total)).toEqual({
+      worked: '12:30',
+      regular: '12:30',
+      overtime: '0:00',
+      night: '0:00',
+      breakDeduction: '0:00',
+    });
+  });
+
+  it('should return empty results for no entries', () => {
+    const { total, days } = calculateTimesheet([]);
+    expect(days).toEqual([]);
+    expect(total.worked.isZero()).toBe(true);
+  });
+
+  it('should split daily overtime', () => {
+    const { total } = calculateTimesheet([['2024-01-01T08:00:00', '2024-01-01T19:00:00']], {
+      ...utc,
+      dailyOvertime: hours(8),
+    });
+    expect(total.regular.toString('h:mm')).toBe('8:00');
+    expect(total.overtime.toString('h:mm')).toBe('3:00');
+  });
+
+  it('should split weekly overtime without counting daily overtime twice', () => {
+    // Monday to Saturday, 9 hours each
+    const entries: TimesheetEntry[] = [1, 2, 3, 4, 5, 6].map((day) => [
+      `2024-01-0${day}T08:00:00`,
+      `2024-01-0${day}T17:00:00`,
+    ]);
+    const { total, days } = calculateTimesheet(entries, {
+      ...utc,
+      dailyOvertime: hours(8),
+      weeklyOvertime: hours(40),
+    });
+    expect(days.map((day) => day.overtime.toString('h:mm'))).toEqual([
+      '1:00',
+      '1:00',
+      '1:00',
+      '1:00',
+      '1:00',
+      '9:00',
+    ]);
+    expect(total.regular.toString('h:mm')).toBe('40:00');
+    expect(total.overtime.toString('h:mm')).toBe('14:00');
+  });
+
+  it('should start weeks on the configured weekday', () => {
+    // Sunday 2024-01-07 belongs to the next week when weeks start on Sunday
+    const entries: TimesheetEntry[] = [
+      ['2024-01-06T00:00:00', '2024-01-06T10:00:00'],
+      ['2024-01-07T00:00:00', '2024-01-07T10:00:00'],
+    ];
+    const rules = { ...utc, weeklyOvertime: hours(15) };
+    expect(calculateTimesheet(entries, rules).total.overtime.toString('h:mm')).toBe('5:00');
+    expect(
+      calculateTimesheet(entries, { ...rules, weekStartsOn: 'sunday' }).total.overtime.isZero(),
+    ).toBe(true);
+  });
+
+  it('should count night time across midnight toward the start day', () => {
+    const { days } = calculateTimesheet([['2024-01-01T20:00:00', '2024-01-02T06:00:00']], {
+      ...utc,
+      nightWindow: ['22:00', '05:00'],
+    });
+    expect(days).toHaveLength(1);
+    expect(format(days[0] as TimesheetBreakdown)).toMatchObject({ worked: '10:00', night: '7:00' });
+  });
+
+  it('should count night time in the window of the previous day', () => {
+    const { total } = calculateTimesheet([['2024-01-02T03:00:00', '2024-01-02T08:00:00']], {
+      ...utc,
+      nightWindow: ['22:00', '05:00'],
+    });
+    expect(total.night.toString('h:mm')).toBe('2:00');
+  });
+
+  it('should deduct breaks shorter than the minimum from the end of the day', () => {
+    const rules = {
+      ...utc,
+      nightWindow: ['22:00', '05:00'] as const,
+      breaks: [
+        { after: hours(6), minimum: SignedTime.fromMinutes(45) },
+        { after: hours(8), minimum: hours(1) },
+      ],
+    };
+
+    // 10 hours with a 30 minute break: 30 minutes are deducted from 22:00-23:00
+    const { total } = calculateTimesheet(
+      [
+        ['2024-01-01T13:00:00', '2024-01-01T17:00:00'],
+        ['2024-01-01T17:30:00', '2024-01-01T23:00:00'],
+      ],
+      rules,
+    );
+    expect(format(total)).toMatchObject({ worked: '9:00', night: '0:30', breakDeduction: '0:30' });
+
+    // 7 hours without a break
+    expect(
+      calculateTimesheet(
+        [['2024-01-01T09:00:00', '2024-01-01T16:00:00']],
+        rules,
+      ).total.breakDeduction.toString('h:mm'),
+    ).toBe('0:45');
+
+    // Exactly 6 hours requires no break
+    expect(
+      calculateTimesheet(
+        [['2024-01-01T09:00:00', '2024-01-01T15:00:00']],
+        rules,
+      ).total.breakDeduction.isZero(),
+    ).toBe(true);
+  });
+
+  it('should count overlapping entries once', () => {
+    const { total } = calculateTimesheet(
+      [
+        ['2024-01-01T09:00:00', '2024-01-01T12:00:00'],
+        ['2024-01-01T11:00:00', '2024-01-01T13:00:00'],
+      ],
+      utc,
+    );
+    expect(total.worked.toString('h:mm')).toBe('4:00');
+  });
+
+  it('should round each entry by default', () => {
+    const entries: TimesheetEntry[] = [
+      ['2024-01-01T09:00:00', '2024-01-01T09:10:00'],
+      ['2024-01-01T10:00:00', '2024-01-01T10:10:00'],
+    ];
+    const increment = SignedTime.fromMinutes(15);
+    expect(
+      calculateTimesheet(entries, { ...utc, rounding: { increment } }).total.worked.toString(
+        'h:mm',
+      ),
+    ).toBe('0:30');
+    expect(
+      calculateTimesheet(entries, {
+        ...utc,
+        rounding: { increment, mode: 'floor' },
+      }).total.worked.isZero(),
+    ).toBe(true);
+  });
+
+  it('should round the total when per is total', () => {
+    const entries: TimesheetEntry[] = [
+      ['2024-01-01T09:00:00', '2024-01-01T09:10:00'],
+      ['2024-01-01T10:00:00', '2024-01-01T10:10:00'],
+    ];
+    const { total, days } = calculateTimesheet(entries, {
+      ...utc,
+      rounding: { increment: SignedTime.fromMinutes(15), per: 'total' },
+    });
+    expect(total.worked.toString('h:mm')).toBe('0:15');
+    expect(days[0]?.worked.toString('h:mm')).toBe('0:20');
+  });
+
+  it('should keep regular and overtime adding up to the worked time when rounding the total', () => {
+    const { total } = calculateTimesheet([['2024-01-01T09:00:00', '2024-01-01T09:20:00']], {
+      ...utc,
+      dailyOvertime: SignedTime.fromMinutes(10),
+      rounding: { increment: SignedTime.fromMinutes(15), per: 'total' },
+    });
+    expect(total.worked.toString('h:mm')).toBe('0:15');
+    expect(total.overtime.toString('h:mm')).toBe('0:15');
+    expect(total.regular.add(total.overtime).equals(total.worked)).toBe(true);
+  });
+
+  it('should evaluate days in the time zone', () => {
+    const { days } = calculateTimesheet([['2024-01-01T20:00:00Z', '2024-01-01T22:00:00Z']], {
+      timeZone: 'Asia/Tokyo',
+    });
+    expect(days[0]?.date).toBe('2024-01-02');
+  });
+
+  it('should throw error for invalid input', () => {
+    expect(() => calculateTimesheet([['2024-01-01T10:00:00', '2024-01-01T09:00:00']])).toThrow(
+      'Interval end must not be before start',
+    );
+    expect(() => calculateTimesheet([['invalid', '2024-01-01T09:00:00']])).toThrow('Invalid Date');
+    expect(() => calculateTimesheet([], { nightWindow: ['22:00', '25:00'] })).toThrow(
+      'Invalid time of day: 25:00',
+    );
+    expect(() => calculateTimesheet([], { nightWindow: ['22:00', '25:00'] })).toThrow(RangeError);
+    expect(() => calculateTimesheet([['2024-01-01T10:00:00', '2024-01-01T09:00:00']])).toThrow(
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,321 @@
+import { WEEKDAYS } from '../businessTime';
+import type { Weekday } from '../businessTime';
+import { parseDateLike } from '../duration';
+import type { DateLike } from '../duration';
+import type { RoundingMode } from '../rounding';
+import { SignedTime } from '../SignedTime';
+import { TimeInterval } from '../TimeInterval';
+import {
+  assertTimeZone,
+  epochToWallClock,
+  fromWallClock,
+  startOfDay,
+  toDateKey,
+} from '../timeZone';
+
+/** Clock-in and clock-out date/time pair */
+export type TimesheetEntry = readonly [start: DateLike, end: DateLike];
+
+/** Minimum break that must be taken once the work of a day exceeds a length */
+export interface BreakRule {
+  /** Work per day beyond which the break is required */
+  after: SignedTime;
+  /** Minimum total break for the day */
+  minimum: SignedTime;
+}
+
+/** Rules for calculating a timesheet */
+export interface TimesheetRules {
+  /** Work per day beyond which time is overtime */
+  dailyOvertime?: SignedTime;
+  /** Regular work per week beyond which time is overtime */
+  weeklyOvertime?: SignedTime;
+  /** First day of the week for `weeklyOvertime` (default: 'monday') */
+  weekStartsOn?: Weekday;
+  /**
+   * Night-time window as `[start, end]` times of day (e.g. `['22:00', '05:00']`).
+   * A window whose end is not after its start spans midnight.
+   */
+  nightWindow?: readonly [start: string, end: string];
+  /**
+   * Minimum breaks. When the breaks taken between the entries of a day are shorter than
+   * the largest applicable minimum, the shortfall is deducted from the end of the day's work.
+   */
+  breaks?: readonly BreakRule[];
+  /** Rounding of worked time */
+  rounding?: {
+    /** Rounding increment (e.g. 15 minutes) */
+    increment: SignedTime;
+    /** Rounding mode (default: 'halfAwayFromZero') */
+    mode?: RoundingMode;
+    /**
+     * Whether the length of each entry is rounded before the calculation, or each value of
+     * the total is rounded after it (default: 'entry')
+     */
+    per?: 'entry' | 'total';
+  };
+  /** IANA time zone name or 'UTC' in which days and the night window are evaluated (default: local time zone) */
+  timeZone?: string;
+}
+
+/** Worked time split into buckets */
+export interface TimesheetBreakdown {
+  /** Total worked time after break deduction (regular + overtime) */
+  worked: SignedTime;
+  /** Worked time within the overtime thresholds */
+  regular: SignedTime;
+  /** Worked time beyond the daily or weekly overtime threshold */
+  overtime: SignedTime;
+  /** Worked time within the night-time window (overlaps regular and overtime) */
+  night: SignedTime;
+  /** Time deducted for breaks shorter than the minimum */
+  breakDeduction: SignedTime;
+}
+
+/** Breakdown of a single day */
+export interface TimesheetDay extends TimesheetBreakdown {
+  /** Day as 'YYYY-MM-DD' in the time zone of the rules */
+  date: string;
+}
+
+/** Result of a timesheet calculation */
+export interface Timesheet {
+  /** Breakdown of all days */
+  total: TimesheetBreakdown;
+  /** Breakdown per day, in chronological order */
+  days: TimesheetDay[];
+}
+
+/** Milliseconds in a day */
+const MILLISECONDS_PER_DAY = 86400000;
+
+/** Keys of the buckets of a breakdown */
+const BUCKETS = ['worked', 'regular', 'overtime', 'night', 'breakDeduction'] as const;
+
+/**
+ * Parses a time of day of the night-time window
+ *
+ * @param {string} time - Time of day in `h:mm` or `h:mm:ss` format
+ * @returns {number} Milliseconds since midnight
+ * @throws {ParseError} When the time is not in `h:mm` or `h:mm:ss` format
+ * @throws {RangeError} When the time is outside the day
+ */
+const parseTimeOfDay = (time: string): number => {
+  const milliseconds = SignedTime.parse(time).totalMilliseconds;
+  if (milliseconds < 0 || milliseconds > MILLISECONDS_PER_DAY) {
+    throw new RangeError(`Invalid time of day: ${time}`);
+  }
+  return milliseconds;
+};
+
+/**
+ * Sums the lengths of intervals
+ *
+ * @param {TimeInterval[]} intervals - Intervals
+ * @returns {number} Total length in milliseconds
+ */
+const totalLength = (intervals: TimeInterval[]): number =>
+  intervals.reduce((total, interval) => total + interval.length().totalMilliseconds, 0);
+
+/**
+ * Removes time from the end of sorted, non-overlapping intervals
+ *
+ * @param {TimeInterval[]} intervals - Intervals sorted by start
+ * @param {number} milliseconds - Time to remove
+ * @returns {TimeInterval[]} Remaining intervals
+ */
+const trimEnd = (intervals: TimeInterval[], milliseconds: number): TimeInterval[] => {
+  const trimmed = [...intervals];
+  let remaining = milliseconds;
+  while (remaining > 0) {
+    const last = trimmed.pop();
+    if (!last) {
+      break;
+    }
+    const length = last.length().totalMilliseconds;
+    if (length > remaining) {
+      trimmed.push(new TimeInterval(last.start, last.end.getTime() - remaining));
+    }
+    remaining -= length;
+  }
+  return trimmed;
+};
+
+/**
+ * Calculates the time of an interval within the night-time window
+ *
+ * @param {TimeInterval} interval - Worked interval
+ * @param {[number, number]} window - Start and end of the window in milliseconds since midnight
+ * @param {string} [timeZone] - IANA time zone name or 'UTC' (default: local time zone)
+ * @returns {number} Night time in milliseconds
+ */
+const nightTimeOf = (
+  interval: TimeInterval,
+  [start, end]: readonly [number, number],
+  timeZone?: string,
+): number => {
+  const windowEnd = end > start ? end : end + MILLISECONDS_PER_DAY;
+  const lastDay = startOfDay(interval.end, timeZone);
+
+  let total = 0;
+  // The window of the previous day may extend past midnight into the first day
+  for (
+    let day = startOfDay(interval.start, timeZone) - MILLISECONDS_PER_DAY;
+    day <= lastDay;
+    day += MILLISECONDS_PER_DAY
+  ) {
+    const window = new TimeInterval(
+      fromWallClock(epochToWallClock(day + start), timeZone),
+      fromWallClock(epochToWallClock(day + windowEnd), timeZone),
+    );
+    total += window.intersection(interval)?.length().totalMilliseconds ?? 0;
+  }
+  return total;
+};
+
+/**
+ * Converts bucket values in milliseconds to a breakdown
+ *
+ * The regular time is derived from the worked and overtime values after rounding,
+ * so that regular and overtime always add up to the worked time.
+ *
+ * @param {Record<string, number>} values - Bucket values in milliseconds
+ * @param {Function} [round] - Rounding applied to each value
+ * @returns {TimesheetBreakdown} Breakdown
+ */
+const toBreakdown = (
+  values: Readonly<Record<(typeof BUCKETS)[number], number>>,
+  round: (time: SignedTime) => SignedTime = (time) => time,
+): TimesheetBreakdown => {
+  const worked = round(SignedTime.fromMilliseconds(values.worked));
+  const overtime = round(SignedTime.fromMilliseconds(values.overtime));
+  return {
+    worked,
+    regular: worked.subtract(overtime),
+    overtime,
+    night: round(SignedTime.fromMilliseconds(values.night)),
+    breakDeduction: round(SignedTime.fromMilliseconds(values.breakDeduction)),
+  };
+};
+
+/**
+ * Calculates a timesheet from clock-in/clock-out entries
+ *
+ * Each entry belongs to the day on which it starts, so a night shift crossing midnight
+ * counts toward its first day. Overlapping entries are counted once, and the gaps between
+ * the entries of a day are treated as breaks taken.
+ *
+ * For each day, worked time beyond `dailyOvertime` is overtime. Then, in chronological
+ * order, regular time beyond `weeklyOvertime` within a week is also moved to overtime,
+ * so no time is counted as overtime twice.
+ *
+ * @param {Iterable<TimesheetEntry>} entries - Clock-in and clock-out pairs
+ * @param {TimesheetRules} rules - Calculation rules
+ * @returns {Timesheet} Breakdown per day and in total
+ * @throws {InvalidDateError} When invalid dates are specified
+ * @throws {ParseError} When a time of the night-time window is not valid
+ * @throws {RangeError} When an entry ends before it starts, or the night-time window,
+ *   the time zone or the rounding increment is invalid
+ *
+ * @example
+ * ```typescript
+ * const { total, days } = calculateTimesheet(
+ *   [
+ *     ['2024-01-01T09:00:00', '2024-01-01T12:00:00'],
+ *     ['2024-01-01T13:00:00', '2024-01-01T23:00:00'],
+ *   ],
+ *   {
+ *     dailyOvertime: SignedTime.fromHours(8),
+ *     nightWindow: ['22:00', '05:00'],
+ *     breaks: [{ after: SignedTime.fromHours(8), minimum: SignedTime.fromHours(1) }],
+ *   },
+ * );
+ * console.log(total.regular.toString()); // "08:00:00.000"
+ * console.log(total.overtime.toString()); // "05:00:00.000"
+ * console.log(total.night.toString()); // "01:00:00.000"
+ * ```
+ */
+export const calculateTimesheet = (
+  entries: Iterable<TimesheetEntry>,
+  rules: TimesheetRules = {},
+): Timesheet => {
+  const { timeZone, rounding } = rules;
+  if (timeZone !== undefined) {
+    assertTimeZone(timeZone);
+  }
+
+  const night =
+    rules.nightWindow &&
+    ([parseTimeOfDay(rules.nightWindow[0]), parseTimeOfDay(rules.nightWindow[1])] as const);
+  const round =
+    rounding && ((time: SignedTime): SignedTime => time.round(rounding.increment, rounding.mode));
+  const roundPerEntry = round && rounding.per !== 'total' ? round : undefined;
+  const roundTotal = round && rounding.per === 'total' ? round : undefined;
+
+  // Group the entries by the day on which they start
+  const entriesByDay = new Map<number, TimeInterval[]>();
+  for (const [start, end] of entries) {
+    let interval = new TimeInterval(
+      parseDateLike(start, timeZone, 'start'),
+      parseDateLike(end, timeZone, 'end'),
+    );
+    if (roundPerEntry) {
+      interval = TimeInterval.fromDuration(interval.start, roundPerEntry(interval.length()));
+    }
+    const day = startOfDay(interval.start, timeZone);
+    entriesByDay.set(day, [...(entriesByDay.get(day) ?? []), interval]);
+  }
+
+  const weekStart = WEEKDAYS.indexOf(rules.weekStartsOn ?? 'monday');
+  const regularByWeek = new Map<number, number>();
+  const totals = { worked: 0, regular: 0, overtime: 0, night: 0, breakDeduction: 0 };
+  const days: TimesheetDay[] = [];
+
+  for (const day of [...entriesByDay.keys()].sort((a, b) => a - b)) {
+    const merged = TimeInterval.merge(entriesByDay.get(day) ?? []);
+    const gross = totalLength(merged);
+
+    const taken = totalLength(TimeInterval.gaps(merged));
+    const required = Math.max(
+      0,
+      ...(rules.breaks ?? [])
+        .filter((rule) => gross > rule.after.totalMilliseconds)
+        .map((rule) => rule.minimum.totalMilliseconds),
+    );
+    const breakDeduction = Math.min(Math.max(required - taken, 0), gross);
+    const worked = trimEnd(merged, breakDeduction);
+    const workedTime = gross - breakDeduction;
+
+    let overtime = rules.dailyOvertime
+      ? Math.max(workedTime - rules.dailyOvertime.totalMilliseconds, 0)
+      : 0;
+
+    if (rules.weeklyOvertime) {
+      const week = day - ((new Date(day).getUTCDay() - weekStart + 7) % 7) * MILLISECONDS_PER_DAY;
+      const before = regularByWeek.get(week) ?? 0;
+      const regular = workedTime - overtime;
+      const excess = Math.max(
+        regular - Math.max(rules.weeklyOvertime.totalMilliseconds - before, 0),
+        0,
+      );
+      overtime += excess;
+      regularByWeek.set(week, before + regular - excess);
+    }
+
+    const values = {
+      worked: workedTime,
+      regular: workedTime - overtime,
+      overtime,
+      night: night
+        ? worked.reduce((total, interval) => total + nightTimeOf(interval, night, timeZone), 0)
+        : 0,
+      breakDeduction,
+    };
+    for (const bucket of BUCKETS) {
+      totals[bucket] += values[bucket];
+    }
+    days.push({ date: toDateKey(day), ...toBreakdown(values) });
+  }
+
+  return { total: toBreakdown(totals, roundTotal), days };
+};
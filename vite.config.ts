@@ -7,6 +7,9 @@ export default defineConfig({
       name: '@fcf-ebisawa/time-delta',
       entry: {
         main: './lib/index.ts',
+        sum: './lib/sum/index.ts',
+        timesheet: './lib/timesheet/index.ts',
+        timer: './lib/timer/index.ts',
       },
       fileName: (format, entryName) => {
         const fileName = entryName === 'main' ? 'index' : `${entryName}/index`;